@@ -0,0 +1,90 @@
+// ---- Local mock of an OpenAI-compatible chat completions endpoint ----
+// For trying the LLM pipeline without a key or network: in Settings → LLM
+// choose the "Other OpenAI-compatible" provider and set its base URL to
+// http://localhost:8787/v1.
+//
+//   MOCK_PORT=8787        port to listen on
+//   MOCK_DELAY_MS=300     latency of every answer
+//   MOCK_FAIL_RATE=0.3    share of requests answered with 429 or 503
+//   MOCK_BAD_RATE=0       share of answers that are not JSON
+//   MOCK_NOISE_RATE=0     share of names answered misspelled or with an
+//                         unknown category
+import { createServer } from "node:http";
+
+const port = Number(process.env.MOCK_PORT ?? 8787);
+const delay = Number(process.env.MOCK_DELAY_MS ?? 300);
+const failRate = Number(process.env.MOCK_FAIL_RATE ?? 0.3);
+const badRate = Number(process.env.MOCK_BAD_RATE ?? 0);
+const noiseRate = Number(process.env.MOCK_NOISE_RATE ?? 0);
+
+const cors = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// Reads the categories and numbered names back out of the prompt and picks
+// a category by keyword, else the first one. Noisy answers drop a letter
+// from the name or make up a category.
+function classify(prompt) {
+  const categories = (prompt.match(/categories: (.*)\.\n/)?.[1] ?? "")
+    .split(", ")
+    .filter(Boolean);
+  const names = [...prompt.matchAll(/^\d+\. (.*)$/gm)].map((m) => m[1]);
+  return names.map((name) => {
+    const category =
+      categories.find((c) => name.toLowerCase().includes(c.toLowerCase())) ??
+      categories[0] ??
+      "OtherExpenses";
+    if (Math.random() >= noiseRate) return { name, category };
+    return Math.random() < 0.5
+      ? { name: name.slice(0, -1), category }
+      : { name, category: "Miscellaneous" };
+  });
+}
+
+createServer((req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, cors).end();
+    return;
+  }
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () =>
+    setTimeout(() => {
+      const roll = Math.random();
+      if (roll < failRate) {
+        const status = roll < failRate / 2 ? 429 : 503;
+        console.log(`${req.method} ${req.url} → ${status}`);
+        res
+          .writeHead(status, { ...cors, "Retry-After": "1" })
+          .end(status === 429 ? "Rate limit reached" : "Service unavailable");
+        return;
+      }
+      let request;
+      try {
+        request = JSON.parse(body);
+      } catch {
+        res.writeHead(400, cors).end("Body is not JSON");
+        return;
+      }
+      const results = classify(request.messages?.at(-1)?.content ?? "");
+      // structured output when a JSON schema was asked for, a plain
+      // { name: category } object otherwise
+      const content =
+        Math.random() < badRate
+          ? "Sorry, I cannot help with that."
+          : JSON.stringify(
+              request.response_format?.type === "json_schema"
+                ? { results }
+                : Object.fromEntries(results.map((r) => [r.name, r.category]))
+            );
+      console.log(`${req.method} ${req.url} → 200`);
+      res
+        .writeHead(200, { ...cors, "Content-Type": "application/json" })
+        .end(JSON.stringify({ choices: [{ message: { content } }] }));
+    }, delay)
+  );
+}).listen(port, () =>
+  console.log(`Mock LLM on http://localhost:${port}/v1/chat/completions`)
+);
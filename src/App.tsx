@@ -1,5 +1,242 @@
 import { useEffect, useMemo, useRef, useState } from "react";
+import type {
+  KeyboardEvent as ReactKeyboardEvent,
+  MouseEvent as ReactMouseEvent,
+} from "react";
 import ftLogo from "./assets/ft-favicon.png";
+import {
+  bankAdapters,
+  detectAdapter,
+  getAdapter,
+  missingHeaders,
+} from "./adapters";
+import {
+  findProfileForHeaders,
+  guessProfile,
+  loadMappingProfiles,
+  profileAdapter,
+  saveMappingProfiles,
+  sourceAdapter,
+  type MappingProfile,
+} from "./mapping";
+import {
+  fallbackParse,
+  parseAmount,
+  parseDate,
+  toISODate,
+} from "./parse";
+import {
+  findRule,
+  loadRules,
+  merchantKey,
+  newRule,
+  parseRulesJson,
+  ruleMatches,
+  rulesToJson,
+  saveRules,
+  type CategoryRule,
+} from "./rules";
+import {
+  csvMimeType,
+  defaultExportProfile,
+  encodeCsv,
+  loadExportProfiles,
+  saveExportProfiles,
+  toCsv,
+  type ExportProfile,
+  type ExportRow,
+} from "./csvExport";
+import { downloadFile } from "./download";
+import {
+  exportFormats,
+  toJson,
+  toLedger,
+  toOfx,
+  toQif,
+  toXlsx,
+  xlsxSheets,
+  type ExportFormat,
+} from "./exporters";
+import {
+  duplicateKey,
+  findDuplicates,
+  indexSessionRows,
+  mergeNotes,
+  type DuplicateAction,
+  type PriorRow,
+} from "./duplicates";
+import {
+  combineFiles,
+  filesHash,
+  importedFile,
+  packFiles,
+  rowId,
+  sessionFiles,
+  sortFiles,
+  type ImportedFile,
+  type ParsedFile,
+} from "./imports";
+import {
+  emptyHistory,
+  mapHistory,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+  type History,
+} from "./history";
+import {
+  categoryBreakdown,
+  matchesFilter,
+  monthlyTotals,
+  topMerchants,
+  type DashboardFilter,
+} from "./analytics";
+import {
+  baseAmount,
+  emptyFxTable,
+  fxRate,
+  loadFxTable,
+  mergeRates,
+  parseFxCsv,
+  saveFxTable,
+  type FxTable,
+} from "./fx";
+import {
+  expandSplits,
+  splitParentId,
+  splitProblem,
+  type SplitLine,
+  type Splits,
+} from "./splits";
+import SplitEditor from "./components/SplitEditor";
+import TableFilters from "./components/TableFilters";
+import BulkActionBar from "./components/BulkActionBar";
+import ManualEntryForm from "./components/ManualEntryForm";
+import LlmProgress from "./components/LlmProgress";
+import LlmSettingsPanel from "./components/LlmSettingsPanel";
+import {
+  checkReply,
+  classifyNames,
+  matchCategory,
+  parseReply,
+  type ChunkStatus,
+} from "./llm";
+import {
+  chatRequest,
+  defaultProviders,
+  findProvider,
+  isLocalUrl,
+  loadProviders,
+  saveProviders,
+  type LlmProvider,
+} from "./providers";
+import {
+  isManualId,
+  manualProblem,
+  manualSource,
+  newManualId,
+  parseQuickAdd,
+  type ManualRow,
+} from "./manual";
+import {
+  bulkChanges,
+  bulkLabels,
+  describeBulk,
+  shiftDate,
+  type BulkAction,
+} from "./bulk";
+import {
+  cellValue,
+  gridFields,
+  inRange,
+  moveCursor,
+  parseTsv,
+  pasteTargets,
+  rangeBounds,
+  toTsv,
+  type CellRange,
+  type GridField,
+} from "./grid";
+import {
+  defaultView,
+  loadSavedViews,
+  matchesView,
+  saveSavedViews,
+  sortRows,
+  type SavedView,
+  type TableView,
+} from "./views";
+import {
+  feeModes,
+  feeParts,
+  reconcileBalances,
+  type FeeMode,
+} from "./fees";
+import {
+  pairTransfers,
+  transferModes,
+  type TransferMode,
+} from "./transfers";
+import {
+  detectRecurring,
+  nextCharge,
+  seriesRule,
+  type RecurringSeries,
+} from "./recurring";
+import {
+  evaluateBudgets,
+  loadBudgets,
+  migrateBudgets,
+  saveBudgets,
+  type Budget,
+} from "./budgets";
+import {
+  deleteSession,
+  getAllSessions,
+  getSession,
+  hashText,
+  listSessions,
+  putSession,
+  summarizeSession,
+  type Session,
+  type SessionSummary,
+} from "./session";
+import {
+  categoryBadgeClass,
+  categoryNames,
+  categoryPath,
+  defaultTaxonomy,
+  findCategory,
+  loadTaxonomy,
+  mergeCategory,
+  orderedCategories,
+  renameCategory,
+  resolveCategory,
+  saveTaxonomy,
+  type Taxonomy,
+} from "./taxonomy";
+import Dashboard from "./components/Dashboard";
+import DuplicatesPanel from "./components/DuplicatesPanel";
+import ExportProfilesPanel from "./components/ExportProfilesPanel";
+import FilesPanel from "./components/FilesPanel";
+import FxPanel from "./components/FxPanel";
+import HistoryPanel from "./components/HistoryPanel";
+import MappingWizard from "./components/MappingWizard";
+import RecurringPanel from "./components/RecurringPanel";
+import RulesPanel from "./components/RulesPanel";
+import SessionsPanel from "./components/SessionsPanel";
+import TaxonomyPanel from "./components/TaxonomyPanel";
+import revolutFixture from "./fixtures/revolut.csv?raw";
+import n26Fixture from "./fixtures/n26.csv?raw";
+import monzoFixture from "./fixtures/monzo.csv?raw";
+import wiseFixture from "./fixtures/wise.csv?raw";
+import intesaFixture from "./fixtures/intesa.csv?raw";
+import goldenRows from "./fixtures/golden/rows.json?raw";
+import goldenJson from "./fixtures/golden/export.json?raw";
+import goldenOfx from "./fixtures/golden/export.ofx?raw";
+import goldenQif from "./fixtures/golden/export.qif?raw";
+import goldenLedger from "./fixtures/golden/export.journal?raw";
+import goldenSheets from "./fixtures/golden/xlsx-sheets.json?raw";
 
 // Canvas runtime makes NPM packages available; if it fails, we fall back to a tiny parser.
 let PapaRef: any = null;
@@ -13,81 +250,33 @@ let PapaRef: any = null;
   }
 })();
 
-// ---- Small helpers ----
-const siteNameDefault = "Revolut CSV Transformer";
-const categorySet = [
-  "Housing",
-  "Rent",
-  "Bills",
-  "Health",
-  "Fitness",
-  "Groceries",
-  "Transport",
-  "Car/Bike",
-  "Subscriptions",
-  "Education",
-  "Out",
-  "Travel",
-  "Shopping",
-  "Leisure",
-  "Gifts & Donations",
-  "Electronics",
-  "OtherExpenses",
-  "Transfers",
-  "Income",
-  "Fees",
-];
-
-const categoryColorClasses: Record<string, string> = {
-  Groceries: "bg-emerald-100 text-emerald-800",
-  Transport: "bg-sky-100 text-sky-800",
-  Fuel: "bg-amber-100 text-amber-800",
-  Shopping: "bg-violet-100 text-violet-800",
-  Income: "bg-green-100 text-green-800",
-  Transfers: "bg-slate-100 text-slate-800",
-  Bills: "bg-orange-100 text-orange-800",
-  Health: "bg-rose-100 text-rose-800",
-  Subscriptions: "bg-indigo-100 text-indigo-800",
-  Leisure: "bg-fuchsia-100 text-fuchsia-800",
-  Travel: "bg-cyan-100 text-cyan-800",
-  Out: "bg-pink-100 text-pink-800",
-  Housing: "bg-yellow-100 text-yellow-800",
-  Rent: "bg-yellow-100 text-yellow-800",
-  Fees: "bg-red-100 text-red-800",
-  Gifts: "bg-lime-100 text-lime-800",
-  Education: "bg-teal-100 text-teal-800",
-  OtherExpenses: "bg-gray-100 text-gray-800",
-};
-
-function categoryBadgeClass(category: string): string {
-  return categoryColorClasses[category] || "bg-gray-100 text-gray-700";
+function parseCsvText(text: string): {
+  data: any[];
+  errors: any[];
+  fields: string[];
+} {
+  if (PapaRef) {
+    const parsed = PapaRef.parse(text, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (h: string) => h.trim(),
+    });
+    return {
+      data: parsed.data as any[],
+      errors: parsed.errors || [],
+      fields: parsed.meta?.fields || [],
+    };
+  }
+  return fallbackParse(text);
 }
 
+// ---- Small helpers ----
+const siteNameDefault = "Revolut CSV Transformer";
 
 function classNames(...xs: Array<string | false | null | undefined>) {
   return xs.filter(Boolean).join(" ");
 }
 
-function csvEscape(value: any): string {
-  if (value === null || value === undefined) return "";
-  const s = String(value);
-  if (/[",\n]/.test(s)) {
-    return '"' + s.replace(/"/g, '""') + '"';
-  }
-  return s;
-}
-
-function toISODate(dateStr: string): string {
-  // Accepts: "YYYY-MM-DD HH:MM:SS" or "YYYY-MM-DD"
-  if (!dateStr) return "";
-  const d = dateStr.trim().slice(0, 10);
-  // naive validation
-  if (/^\d{4}-\d{2}-\d{2}$/.test(d)) return d;
-  const dt = new Date(dateStr);
-  if (!isNaN(dt as unknown as number)) return dt.toISOString().slice(0, 10);
-  return "";
-}
-
 function heuristicCategory(name: string): string {
   const s = (name || "").toLowerCase();
   const has = (k: string | RegExp) =>
@@ -217,83 +406,6 @@ function heuristicCategory(name: string): string {
   return "OtherExpenses";
 }
 
-async function classifyWithOpenAI(
-  names: string[],
-  apiKey: string,
-  model: string = "gpt-4o-mini"
-): Promise<Record<string, string>> {
-  if (!apiKey) throw new Error("Missing API key");
-  const chunks: string[][] = [];
-  const CHUNK = 40; // keep prompts compact
-  for (let i = 0; i < names.length; i += CHUNK)
-    chunks.push(names.slice(i, i + CHUNK));
-
-  const mapping: Record<string, string> = {};
-
-  for (const group of chunks) {
-    const content = `Classify each transaction/merchant name into one of these categories: ${categorySet.join(
-      ", "
-    )}.\nReturn a single valid JSON object with keys = original names EXACTLY and values = one category string.\nNames:\n${group
-      .map((n, i) => `${i + 1}. ${n}`)
-      .join("\n")}`;
-
-    const res = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        temperature: 0.1,
-        messages: [
-          {
-            role: "system",
-            content:
-              "You are a meticulous financial transaction classifier. Only output strict JSON with no extra commentary.",
-          },
-          { role: "user", content },
-        ],
-      }),
-    });
-
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`OpenAI API error: ${res.status} ${text}`);
-    }
-    const data = await res.json();
-    const text = data.choices?.[0]?.message?.content?.trim() || "{}";
-    try {
-      const obj = JSON.parse(text);
-      Object.assign(mapping, obj);
-    } catch (e) {
-      // Model output not strict JSON — attempt to salvage {...}
-      const m = text.match(/\{[\s\S]*\}/);
-      if (m) {
-        Object.assign(mapping, JSON.parse(m[0]));
-      } else {
-        // fallback: heuristics for this batch
-        for (const n of group) mapping[n] = heuristicCategory(n);
-      }
-    }
-  }
-  return mapping;
-}
-
-function fallbackParse(csvText: string): { data: any[]; errors: string[] } {
-  // Simple CSV parser for well-formed, comma-separated files without fancy quoting.
-  const lines = csvText.split(/\r?\n/).filter(Boolean);
-  if (!lines.length) return { data: [], errors: ["Empty file"] };
-  const headers = lines[0].split(",").map((s) => s.trim());
-  const rows = lines.slice(1).map((line) => {
-    const cols = line.split(",");
-    const rec: any = {};
-    headers.forEach((h, i) => (rec[h] = (cols[i] || "").trim()));
-    return rec;
-  });
-  return { data: rows, errors: [] };
-}
-
 // --- Tiny dev self-tests to catch regressions (runs once in browser console) ---
 function runSelfTests() {
   try {
@@ -302,10 +414,379 @@ function runSelfTests() {
       toISODate("2025-08-01 23:59:00") === "2025-08-01",
       "toISODate failed A"
     );
-    console.assert(csvEscape("a,b") === '"a,b"', "csvEscape comma");
+    const nameOnly = { ...defaultExportProfile, columns: ["Name" as const] };
+    const csvRow = (Name: string): ExportRow => ({
+      Date: "2025-08-01",
+      Type: "Expense",
+      Amount: "1234.50",
+      Currency: "EUR",
+      Category: "Groceries",
+      Name,
+      Account: "Revolut",
+      Notes: "",
+      Source: "FinTrack",
+      File: "a.csv",
+      AmountBase: "",
+      FxRate: "",
+      Direction: "out",
+      TransferId: "",
+      Fee: "",
+      Balance: "",
+      FeeId: "",
+      SplitId: "",
+    });
+    console.assert(
+      toCsv([csvRow("a,b")], nameOnly) === '"a,b"\n',
+      "csv escape comma"
+    );
     console.assert(
-      csvEscape('He said "Hi"') === '"He said ""Hi"""',
-      "csvEscape quotes"
+      toCsv([csvRow('He said "Hi"')], nameOnly) === '"He said ""Hi"""\n',
+      "csv escape quotes"
+    );
+    console.assert(
+      toCsv([csvRow("Conad")], defaultExportProfile) ===
+        "2025-08-01,Expense,1234.50,EUR,Groceries,Conad,Revolut,,FinTrack\n",
+      "default export profile keeps the headerless layout"
+    );
+    const italian: ExportProfile = {
+      ...defaultExportProfile,
+      header: true,
+      delimiter: ";",
+      decimal: ",",
+      signed: true,
+      dateFormat: "DD/MM/YYYY",
+      columns: ["Date", "Amount", "Name"],
+      encoding: "windows-1252",
+    };
+    console.assert(
+      toCsv([csvRow("Caffè; bar")], italian) ===
+        'Date;Amount;Name\n01/08/2025;-1234,50;"Caffè; bar"\n' &&
+        encodeCsv("€è", italian).join(",") === "128,232",
+      "export profile: header, delimiter, decimal, sign, date, encoding"
+    );
+    // exporters against golden files in src/fixtures/golden
+    const golden: ExportRow[] = JSON.parse(goldenRows);
+    console.assert(toJson(golden) === goldenJson, "JSON export golden file");
+    console.assert(
+      toOfx(golden, new Date("2025-10-01T12:00:00Z")) === goldenOfx,
+      "OFX export golden file"
+    );
+    console.assert(toQif(golden) === goldenQif, "QIF export golden file");
+    console.assert(
+      toLedger(golden) === goldenLedger,
+      "Ledger export golden file"
+    );
+    console.assert(
+      JSON.stringify(xlsxSheets(golden), null, 2) + "\n" === goldenSheets &&
+        String.fromCharCode(...toXlsx(golden).slice(0, 2)) === "PK",
+      "XLSX export golden file"
+    );
+    // dashboard aggregates, one currency at a time
+    const months = monthlyTotals(golden, "EUR");
+    console.assert(
+      months.length === 2 &&
+        months[0].net === 2402.7 &&
+        months[1].byCategory["Transport:Fuel"] === 60 &&
+        months[1].cumulative === 2342.7,
+      "dashboard monthly totals and running net"
+    );
+    console.assert(
+      topMerchants(golden, "EUR")[0].total === 60 &&
+        categoryBreakdown(golden, "USD")[0].key === "Subscriptions" &&
+        golden.filter((r) =>
+          matchesFilter(r, {
+            currency: "EUR",
+            merchant: merchantKey("CONAD SUPERMARKET"),
+          })
+        ).length === 1,
+      "dashboard merchants, categories and chart filter"
+    );
+    const spend = (Date: string, Category: string, Amount: string) => ({
+      Date,
+      Type: "Expense",
+      Amount,
+      Currency: "EUR",
+      Category,
+      Name: "",
+    });
+    const budgetRows = [
+      spend("2025-08-20", "Groceries", "300.00"),
+      spend("2025-09-10", "Groceries", "50.00"),
+      spend("2025-09-05", "Fuel", "60.00"),
+    ];
+    const [groceries, transport] = evaluateBudgets(
+      [
+        { category: "Groceries", limit: 200, rollover: true },
+        { category: "Transport", limit: 50, rollover: false },
+      ],
+      defaultTaxonomy,
+      budgetRows,
+      "EUR",
+      "2025-09"
+    );
+    console.assert(
+      groceries.carried === -100 &&
+        groceries.projected === 150 &&
+        groceries.status === "projected" &&
+        transport.spent === 60 &&
+        transport.status === "over",
+      "budgets rollover, projection and subcategory spend"
+    );
+    const charge = (_id: string, Date: string, Amount: string, Name: string) => ({
+      _id,
+      Date,
+      Type: "Expense",
+      Amount,
+      Currency: "EUR",
+      Category: "OtherExpenses",
+      Name,
+    });
+    const [netflix] = detectRecurring([
+      charge("a", "2025-06-15", "12.99", "NETFLIX.COM 06/15"),
+      charge("b", "2025-07-15", "12.99", "NETFLIX.COM 07/15"),
+      charge("c", "2025-08-14", "15.99", "NETFLIX.COM 08/14"),
+      charge("d", "2025-07-02", "80.00", "Zara"),
+      charge("e", "2025-08-20", "25.00", "Zara"),
+    ]);
+    console.assert(
+      netflix?.cadence === "monthly" &&
+        netflix.ids.length === 3 &&
+        netflix.next === "2025-09-14" &&
+        netflix.priceChanges[0]?.to === 15.99 &&
+        nextCharge("2025-01-31", "monthly") === "2025-02-28",
+      "recurring monthly series, next charge and price change"
+    );
+    // FX: ECB-style wide file, cross rates through the anchor, latest rate on or before the date
+    const ecb = fallbackParse(
+      "Date,USD,GBP,\n2025-08-04,1.1600,0.8700,\n2025-08-01,1.1500,N/A,\n"
+    );
+    const fx = mergeRates(emptyFxTable, parseFxCsv(ecb.fields, ecb.data));
+    console.assert(
+      fx.dates.length === 2 &&
+        fx.rates.GBP[0] === null &&
+        fxRate(fx, "USD", "EUR", "2025-08-03") === 1 / 1.15 &&
+        Math.abs((fxRate(fx, "USD", "GBP", "2025-08-05") ?? 0) - 0.75) < 1e-9 &&
+        baseAmount(fx, "EUR", { Date: "2025-08-02", Amount: "23.00", Currency: "USD" })
+          .AmountBase === "20.00" &&
+        baseAmount(fx, "EUR", { Date: "2025-08-02", Amount: "5", Currency: "CHF" })
+          .AmountBase === "",
+      "fx import and base-currency conversion"
+    );
+    // Transfers: exchange legs with the same start time pair up; a lone leg does not
+    const leg = (id: string, Kind: string, Amount: number, Currency: string) => ({
+      id,
+      Kind,
+      Timestamp: "2025-08-02 10:15:42",
+      Date: "2025-08-02",
+      Amount,
+      Currency,
+    });
+    const links = pairTransfers([
+      leg("out", "EXCHANGE", -100, "EUR"),
+      leg("in", "EXCHANGE", 108.5, "USD"),
+      leg("lone", "TRANSFER", 50, "EUR"),
+      { ...leg("sent", "TRANSFER", -50, "EUR"), Timestamp: "" },
+      { ...leg("received", "TRANSFER", 50, "EUR"), Timestamp: "" },
+    ]);
+    console.assert(
+      links.get("out")?.other === "in" &&
+        links.get("in")?.pair === links.get("out")?.pair &&
+        !links.has("lone") &&
+        !links.has("sent"),
+      "transfer legs pair up; untimed rows do not"
+    );
+    // Fees: Revolut charges on top of Amount, Wise includes them; balances follow the totals
+    const bal = (id: string, Amount: number, Fee: number, Balance: string) => ({
+      id,
+      account: "0|EUR",
+      Date: "2025-08-0" + id,
+      Amount,
+      Fee,
+      Balance,
+      inAmount: false,
+    });
+    const issues = reconcileBalances([
+      bal("1", -10, 0, "90.00"),
+      bal("2", -20, 1, "69.00"),
+      bal("3", 50, 0, "120.00"),
+    ]);
+    console.assert(
+      feeParts(-20, 1, false, "split").fee === -1 &&
+        feeParts(-20, 1, false, "split").amount === -20 &&
+        feeParts(-21, 1, true, "split").amount === -20 &&
+        feeParts(-20, 1, false, "add").amount === -21 &&
+        issues.size === 1 &&
+        issues.get("3")?.expected === 119,
+      "fee modes and balance reconciliation"
+    );
+    // Splits: lines must add up to the parent and replace it with a shared SplitId
+    const receipt = [
+      { amount: "30.00", category: "Groceries", notes: "" },
+      { amount: "12.50", category: "Household", notes: "Detergent" },
+    ];
+    const lines = expandSplits(
+      [{ _id: "r1", Amount: "42.50", Category: "Groceries", Notes: "" }],
+      { r1: receipt }
+    );
+    const stale = expandSplits(
+      [{ _id: "r1", Amount: "43.00", Category: "Groceries", Notes: "" }],
+      { r1: receipt }
+    );
+    console.assert(
+      splitProblem("42.50", receipt) === "" &&
+        splitProblem("42.00", receipt) !== "" &&
+        lines.length === 2 &&
+        lines[1].Category === "Household" &&
+        lines[0].SplitId === lines[1].SplitId &&
+        splitParentId(lines[1]._id) === "r1" &&
+        stale.length === 1 &&
+        stale[0]._splitProblem !== "",
+      "split lines add up, share a group id and give way to a changed parent"
+    );
+    // Views: words match Name or Notes, ranges are inclusive, sorting flips
+    const viewRow = (_id: string, Date: string, Amount: string, Name: string, Notes = "") => ({
+      _id,
+      Date,
+      Amount,
+      Currency: "EUR",
+      Category: Name === "Landlord" ? "Rent" : "Groceries",
+      Name,
+      Notes,
+    });
+    const viewed = [
+      viewRow("a", "2025-08-01", "9.50", "Conad"),
+      viewRow("b", "2025-08-03", "120.00", "Landlord", "August rent"),
+      viewRow("c", "2025-08-02", "", "Walmart"),
+    ];
+    const search = {
+      ...defaultView,
+      search: "AUGUST",
+      amountMin: "100",
+      dateTo: "2025-08-03",
+    };
+    const edited = { ...defaultView, editedOnly: true };
+    console.assert(
+      viewed.filter((r) => matchesView(r, search, new Set(), false)).length === 1 &&
+        !matchesView(viewed[0], edited, new Set(), false) &&
+        !matchesView(viewed[0], defaultView, new Set(["Rent"]), false) &&
+        sortRows(viewed, "Amount", "desc").map((r) => r._id).join() === "b,a,c" &&
+        sortRows(viewed, "Date", "asc").map((r) => r._id).join() === "a,c,b",
+      "table view filters and sorting"
+    );
+    // Grid: Tab wraps rows and leaves at the ends, Shift+arrows extend, pasted TSV keeps quoted tabs
+    const start = { anchor: { row: 0, col: 3 }, focus: { row: 0, col: 3 } };
+    const pasted = parseTsv('Groceries\t"a\tb"\nRent\tx\n');
+    console.assert(
+      moveCursor(start, "Tab", false, 5)?.focus.row === 1 &&
+        moveCursor(start, "Tab", false, 1) === null &&
+        moveCursor({ ...start, focus: { row: 0, col: 0 } }, "Tab", true, 5) === null &&
+        moveCursor(start, "ArrowDown", true, 5)?.anchor.row === 0 &&
+        pasted.length === 2 &&
+        pasted[0][1] === "a\tb" &&
+        toTsv(pasted).startsWith('Groceries\t"a\tb"') &&
+        pasteTargets(start, [["x"]], 5).length === 1 &&
+        pasteTargets(start, pasted, 5).length === 2 &&
+        cellValue("Amount", "-1.234,50", () => null) === "1234.50" &&
+        cellValue("Category", "Transport:Fuel", (n) => n) === "Fuel",
+      "grid navigation and clipboard"
+    );
+    // Bulk: only rows the action changes count, dates shift across months
+    const bulkRow = (_id: string, Notes: string) => ({
+      _id,
+      Date: "2025-08-31",
+      Type: "Expense",
+      Category: "Groceries",
+      Notes,
+      Account: "Revolut",
+    });
+    const picked = [bulkRow("a", ""), bulkRow("b", "Split")];
+    console.assert(
+      Object.keys(bulkChanges(picked, { kind: "category", category: "Groceries" }))
+        .length === 0 &&
+        bulkChanges(picked, { kind: "notes", mode: "append", text: "w/ Sam" }).b
+          ?.Notes === "Split w/ Sam" &&
+        bulkChanges(picked, { kind: "date", days: 1 }).a?.Date === "2025-09-01" &&
+        shiftDate("2025-03-01", -1) === "2025-02-28",
+      "bulk actions preview and date shift"
+    );
+    // Manual rows: quick-add reads date, signed amount, currency and tags
+    const cash = { Date: "2025-08-10", Currency: "EUR", Account: "Cash" };
+    const coffee = parseQuickAdd("3.20 Coffee at Bar #Out", cash);
+    const refund = parseQuickAdd("2025-08-02 +40 USD Refund @Revolut", cash);
+    console.assert(
+      coffee?.Amount === "3.20" &&
+        coffee.Type === "Expense" &&
+        coffee.Category === "Out" &&
+        coffee.Name === "Coffee at Bar" &&
+        coffee.Date === "2025-08-10" &&
+        refund?.Type === "Income" &&
+        refund.Currency === "USD" &&
+        refund.Account === "Revolut" &&
+        refund.Date === "2025-08-02" &&
+        parseQuickAdd("Coffee", cash) === null &&
+        manualProblem({ ...coffee, Category: "" }) !== "" &&
+        manualProblem(coffee) === "",
+      "manual quick-add parsing and validation"
+    );
+    // LLM pipeline: a 429 is retried, a 401 fails its chunk, which falls back
+    const replies = [429, 200, 401];
+    classifyNames(["Conad", "Lidl", "Netflix"], ["Groceries"], () => "Fallback", {
+      provider: defaultProviders[0],
+      apiKey: "test",
+      model: "test",
+      chunkSize: 2,
+      concurrency: 1,
+      backoffMs: 1,
+      fetchFn: async () => {
+        const content = '{"Conad":"Groceries","Lidl":"Groceries"}';
+        return new Response(JSON.stringify({ choices: [{ message: { content } }] }), {
+          status: replies.shift() ?? 500,
+        });
+      },
+    }).then((r) =>
+      console.assert(
+        r.chunks[0].attempts === 2 &&
+          r.mapping.Lidl === "Groceries" &&
+          r.chunks[1].state === "failed" &&
+          r.fallback.join() === "Netflix" &&
+          r.mapping.Netflix === "Fallback",
+        "LLM retries, failed chunks and heuristic fallback"
+      )
+    );
+    // LLM replies: numbered or misspelled keys find their name, unknown categories do not count
+    const checked = checkReply(
+      [
+        { name: "2. CONAD Supermercato", category: "groceries" },
+        { name: "Netflx", category: "Subscriptions" },
+        { name: "Lidl", category: "Food" },
+        { name: "Someone else", category: "Groceries" },
+      ],
+      ["Conad Supermercato", "Netflix", "Lidl"],
+      ["Groceries", "Subscriptions"]
+    );
+    console.assert(
+      checked.valid["Conad Supermercato"] === "Groceries" &&
+        checked.valid.Netflix === "Subscriptions" &&
+        checked.invalid.join() === "Lidl" &&
+        matchCategory("Transport:Fuel", ["Transport", "Fuel"]) === "Fuel" &&
+        parseReply('{"results":[{"name":"Lidl","category":"Groceries"}]}')?.[0]
+          .category === "Groceries" &&
+        parseReply("no JSON here") === null,
+      "LLM reply validation and fuzzy name matching"
+    );
+    // Providers: Azure puts the deployment in the URL, Anthropic uses its own API and headers
+    const [, azure, anthropic] = defaultProviders;
+    const azureCall = chatRequest(azure, "k", "gpt4o", { system: "s", user: "u" });
+    const anthropicCall = chatRequest(anthropic, "k", "claude", { system: "s", user: "u" });
+    console.assert(
+      azureCall.url.endsWith("/deployments/gpt4o/chat/completions?api-version=2024-10-21") &&
+        (azureCall.init.headers as Record<string, string>)["api-key"] === "k" &&
+        anthropicCall.url === "https://api.anthropic.com/v1/messages" &&
+        (anthropicCall.init.headers as Record<string, string>)["x-api-key"] === "k" &&
+        JSON.parse(String(anthropicCall.init.body)).system === "s" &&
+        isLocalUrl("http://localhost:11434/v1") &&
+        !isLocalUrl("https://ollama.example.com/v1"),
+      "LLM provider request shapes and local URLs"
     );
     console.assert(
       heuristicCategory("Conad Superstore") === "Groceries",
@@ -341,6 +822,276 @@ function runSelfTests() {
       parseAmount("-4.730,00") === -4730.0,
       "parseAmount EU thousands"
     );
+    console.assert(
+      parseDate("06/08/2025", "DD/MM/YYYY") === "2025-08-06",
+      "parseDate day first"
+    );
+    console.assert(
+      parseDate("08-06-25", "MM/DD/YYYY") === "2025-08-06",
+      "parseDate month first"
+    );
+    // Bank adapters against fixture exports: detection + first row mapping
+    const fixtures: Array<[string, string, Record<string, string | number>]> =
+      [
+        [
+          revolutFixture,
+          "Revolut",
+          { Date: "2025-08-02", Amount: -47.3, Name: "Conad Supermarket" },
+        ],
+        [
+          n26Fixture,
+          "N26",
+          { Date: "2025-08-04", Amount: -23.15, Name: "Lidl Berlin" },
+        ],
+        [
+          monzoFixture,
+          "Monzo",
+          { Date: "2025-08-06", Amount: -6.45, Currency: "GBP" },
+        ],
+        [
+          wiseFixture,
+          "Wise",
+          { Date: "2025-08-08", Amount: -12.4, Name: "Starbucks" },
+        ],
+        [
+          intesaFixture,
+          "Intesa Sanpaolo",
+          { Date: "2025-08-10", Amount: -1234.56, State: "COMPLETED" },
+        ],
+      ];
+    for (const [csv, id, expected] of fixtures) {
+      const parsed = fallbackParse(csv);
+      const adapter = detectAdapter(parsed.fields);
+      console.assert(adapter?.id === id, `adapter detect ${id}`);
+      const first = getAdapter(id).normalize(parsed.data[0], "");
+      for (const [k, val] of Object.entries(expected)) {
+        console.assert(
+          first[k as keyof typeof first] === val,
+          `adapter ${id} ${k}`
+        );
+      }
+      const second = getAdapter(id).normalize(parsed.data[1], "");
+      console.assert(second.Amount > 0, `adapter ${id} income sign`);
+    }
+    console.assert(
+      getAdapter("Wise").normalize(fallbackParse(wiseFixture).data[1], "").Date ===
+        "2025-08-09",
+      "adapter Wise reads DD-MM-YYYY dates day first"
+    );
+    const revolutPending = getAdapter("Revolut").normalize(
+      fallbackParse(revolutFixture).data[1],
+      "Completed Date"
+    );
+    console.assert(
+      revolutPending.Date === "2025-08-03",
+      "revolut pending falls back to Started Date"
+    );
+    const intesaPending = getAdapter("Intesa Sanpaolo").normalize(
+      fallbackParse(intesaFixture).data[1],
+      ""
+    );
+    console.assert(
+      intesaPending.State === "PENDING",
+      "intesa non contabilizzato is pending"
+    );
+    const debitCredit = {
+      ...guessProfile("Test", ["Booking date", "Payee", "Debit", "Credit"]),
+      dateFormat: "DD/MM/YYYY" as const,
+      decimal: "comma" as const,
+    };
+    console.assert(
+      debitCredit.sign === "debitCredit",
+      "mapping guesses debit/credit"
+    );
+    const mapped = profileAdapter(debitCredit).normalize(
+      { "Booking date": "03.08.2025", Payee: "Coop", Debit: "1.234,50" },
+      ""
+    );
+    console.assert(
+      mapped.Amount === -1234.5 && mapped.Date === "2025-08-03",
+      "mapping debit column"
+    );
+    console.assert(
+      findProfileForHeaders(
+        [debitCredit],
+        ["Credit", "Debit", "Payee", "Booking date"]
+      ) === debitCredit,
+      "mapping profile reused for same header set"
+    );
+    const rules = [
+      newRule({ match: "regex", pattern: "^esselunga", category: "Groceries" }),
+      newRule({ pattern: "amazon", maxAmount: 20, category: "Subscriptions" }),
+      newRule({ pattern: "amazon", type: "Expense", category: "Shopping" }),
+      newRule({
+        match: "exact",
+        pattern: "acme",
+        currency: "USD",
+        category: "Income",
+      }),
+    ];
+    const target = (Name: string, Amount: number, Currency = "EUR") => ({
+      Name,
+      Amount,
+      Type: "Expense",
+      Currency,
+    });
+    console.assert(
+      findRule(rules, target("ESSELUNGA MILANO", 10))?.category === "Groceries",
+      "rules regex"
+    );
+    console.assert(
+      findRule(rules, target("Amazon Prime", 4.99))?.category ===
+        "Subscriptions",
+      "rules first match wins"
+    );
+    console.assert(
+      findRule(rules, target("Amazon.it", 59))?.category === "Shopping",
+      "rules amount range"
+    );
+    console.assert(
+      findRule(rules, target("Acme", 5))?.category === undefined,
+      "rules currency condition"
+    );
+    console.assert(
+      parseRulesJson(rulesToJson(rules)).length === rules.length,
+      "rules JSON round trip"
+    );
+    console.assert(
+      merchantKey("CONAD 0123 MILANO 12/08") === "conad milano" &&
+        merchantKey("Conad #77 Milano") === "conad milano",
+      "merchantKey strips store numbers and dates"
+    );
+    console.assert(
+      merchantKey("AMZN Mktp IT*2K4L81") === "amzn mktp it" &&
+        merchantKey("Esselunga Card 1234") === "esselunga",
+      "merchantKey strips card suffixes and reference codes"
+    );
+    console.assert(
+      ["Conad", "Eni Station", "Salary ACME", "Spotify"]
+        .map(heuristicCategory)
+        .every((c) => findCategory(defaultTaxonomy, c)),
+      "heuristic categories exist in the default taxonomy"
+    );
+    const renamed = renameCategory(defaultTaxonomy, "Transport", "Mobility");
+    console.assert(
+      findCategory(renamed, "Fuel")?.parent === "Mobility" &&
+        resolveCategory(renamed, "Transport") === "Mobility",
+      "taxonomy rename"
+    );
+    const merged = mergeCategory(renamed, "Mobility", "Car/Bike");
+    console.assert(
+      resolveCategory(merged, "Transport") === "Car/Bike" &&
+        findCategory(merged, "Fuel")?.parent === "Car/Bike",
+      "taxonomy merge"
+    );
+    console.assert(
+      categoryPath(defaultTaxonomy, "Fuel", ":") === "Transport:Fuel",
+      "taxonomy path"
+    );
+    let h = pushHistory(emptyHistory<number>(), {
+      label: "a",
+      detail: "",
+      before: 0,
+      after: 1,
+    });
+    h = pushHistory(h, { label: "b", detail: "", before: 1, after: 2 });
+    const undone = undoHistory(h);
+    console.assert(
+      undone?.entry.before === 1 &&
+        redoHistory(undone.history)?.entry.after === 2 &&
+        pushHistory(undone.history, {
+          label: "c",
+          detail: "",
+          before: 1,
+          after: 3,
+        }).future.length === 0,
+      "history undo/redo; a new step drops the redo branch"
+    );
+    const shifted = undone ? mapHistory(undone.history, (n) => n * 10) : null;
+    console.assert(
+      shifted?.past[0].after === 10 && shifted.future[0].after === 20,
+      "history snapshots rewritten in place"
+    );
+    const revolutRows = fallbackParse(revolutFixture).data;
+    const prior = new Map<string, PriorRow>();
+    indexSessionRows(
+      {
+        hash: "prior",
+        name: "August",
+        fileName: "revolut.csv",
+        source: "Revolut",
+        createdAt: "",
+        updatedAt: "",
+        rawRows: revolutRows,
+        edits: {},
+        deletedIds: [],
+        categoryMap: { "Conad Supermarket": "Groceries" },
+      },
+      getAdapter,
+      "Completed Date",
+      prior
+    );
+    const doubled = combineFiles(
+      [
+        {
+          name: "revolut.csv",
+          hash: "current",
+          source: "Revolut",
+          account: "Revolut",
+          rows: [...revolutRows, revolutRows[0]],
+        },
+      ],
+      [getAdapter("Revolut")],
+      "Completed Date"
+    ).map((r) => ({ id: rowId(r), key: duplicateKey(r) }));
+    const dups = findDuplicates(doubled, prior);
+    console.assert(
+      dups.length === 3 &&
+        dups[0].prior?.Category === "Groceries" &&
+        dups[2].originalId === doubled[0].id,
+      "duplicates within a file and against an earlier session"
+    );
+    const twoFiles = [
+      {
+        name: "a.csv",
+        hash: "a",
+        source: "Revolut",
+        account: "EUR",
+        rows: revolutRows,
+      },
+      {
+        name: "b.csv",
+        hash: "b",
+        source: "N26",
+        account: "N26",
+        rows: fallbackParse(n26Fixture).data,
+      },
+    ];
+    const combined = combineFiles(
+      twoFiles,
+      twoFiles.map((f) => getAdapter(f.source)),
+      "Completed Date"
+    );
+    const packed = packFiles(twoFiles);
+    console.assert(
+      combined.length === 4 &&
+        combined[2].file === 1 &&
+        combined[2].index === 0 &&
+        rowId(combined[2]) === "b|0" &&
+        sessionFiles({
+          hash: "",
+          name: "",
+          fileName: "",
+          source: "",
+          createdAt: "",
+          updatedAt: "",
+          edits: {},
+          deletedIds: [],
+          categoryMap: {},
+          ...packed,
+        })[1].rows.length === 2,
+      "multi-file combine keys rows per file and round-trips through a session"
+    );
     console.groupEnd();
   } catch (e) {
     console.warn("Self-tests encountered an issue:", e);
@@ -351,56 +1102,84 @@ if (typeof window !== "undefined" && !(window as any).__rcvt_tests_ran) {
   runSelfTests();
 }
 
-function parseAmount(input: string): number {
-  let s = (input ?? "").toString().trim();
-  if (!s) return 0;
-  s = s.replace(/[^0-9.,\-+]/g, "");
-  if (!s) return 0;
-  let sign = 1;
-  if (s.includes("-")) sign = -1;
-  s = s.replace(/-/g, "");
-  const hasComma = s.includes(",");
-  const hasDot = s.includes(".");
-  if (hasComma && hasDot) {
-    const lastComma = s.lastIndexOf(",");
-    const lastDot = s.lastIndexOf(".");
-    if (lastComma > lastDot) {
-      s = s.replace(/\./g, "").replace(/,/g, ".");
-    } else {
-      s = s.replace(/,/g, "");
-    }
-  } else if (hasComma && !hasDot) {
-    s = s.replace(/,/g, ".");
-  } else {
-    // only dot or no separator -> already fine
-  }
-  const num = parseFloat(s);
-  return isNaN(num) ? 0 : sign * num;
-}
-
 export default function App() {
-  const [tab, setTab] = useState<"transform" | "settings">("transform");
+  const [tab, setTab] = useState<"transform" | "dashboard" | "settings">(
+    "transform"
+  );
 
   // Settings (persist to localStorage)
-  const [apiKey, setApiKey] = useState<string>("");
+  // one key per LLM provider, so a key is only ever sent to its own host
+  const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
   const [source, setSource] = useState<string>("Revolut");
   const [websiteName, setWebsiteName] = useState<string>(siteNameDefault);
-  const [dateField, setDateField] = useState<"Completed Date" | "Started Date">(
-    "Completed Date"
-  );
+  const [dateField, setDateField] = useState<string>("Completed Date");
   const [onlyCompleted, setOnlyCompleted] = useState<boolean>(true);
   const [model, setModel] = useState<string>("gpt-4o-mini");
+  // LLM provider settings: base URL, auth header and models per provider
+  const [providerId, setProviderId] = useState<string>("openai");
+  const [providers, setProviders] = useState<LlmProvider[]>(() =>
+    loadProviders()
+  );
+  const updateProviders = (next: LlmProvider[]) => {
+    setProviders(next);
+    saveProviders(next);
+  };
+  const provider = findProvider(providers, providerId);
+  const apiKey = apiKeys[provider.id] ?? "";
+  // per-chunk progress of the last LLM run; the controller is set while it runs
+  const [llmChunks, setLlmChunks] = useState<ChunkStatus[] | null>(null);
+  const [llmRunning, setLlmRunning] = useState<boolean>(false);
+  const llmAbort = useRef<AbortController | null>(null);
   const [typeFilter, setTypeFilter] = useState<"Both" | "Expense" | "Income">(
     "Both"
   );
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(() => loadTaxonomy());
+  const [exportProfiles, setExportProfiles] = useState<ExportProfile[]>(() =>
+    loadExportProfiles()
+  );
+  const [exportProfile, setExportProfile] = useState<string>(
+    defaultExportProfile.name
+  );
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  // Download exports every row or only the rows of the current table view
+  const [exportScope, setExportScope] = useState<"all" | "view">("all");
+  // How paired transfer legs show up in the table, dashboard and export
+  const [transferMode, setTransferMode] = useState<TransferMode>("linked");
+  const [feeMode, setFeeMode] = useState<FeeMode>("column");
+  // "" = no conversion; rates live in their own localStorage entry
+  const [baseCurrency, setBaseCurrency] = useState<string>("");
+  const [fxTable, setFxTable] = useState<FxTable>(() => loadFxTable());
+  const [fxStorageError, setFxStorageError] = useState<string>("");
+  const updateFxTable = (next: FxTable) => {
+    setFxTable(next);
+    try {
+      saveFxTable(next);
+      setFxStorageError("");
+    } catch {
+      setFxStorageError(
+        "The rate table is too large to save in this browser; it is kept until the page is reloaded. Remove currencies you don't need."
+      );
+    }
+  };
+  const categories = useMemo(() => categoryNames(taxonomy), [taxonomy]);
 
   // Add types + state
-  type EditableField = "Date" | "Category" | "Notes" | "Amount";
+  // Type and Account are only changed by bulk actions
+  type EditableField =
+    | "Date"
+    | "Category"
+    | "Notes"
+    | "Amount"
+    | "Type"
+    | "Account";
 
   const [editing, setEditing] = useState<{
     id: string;
     field: EditableField;
   } | null>(null);
+  // Spreadsheet cursor over the editable cells of tableRows (see grid.ts)
+  const [cursor, setCursor] = useState<CellRange | null>(null);
+  const gridRef = useRef<HTMLDivElement | null>(null);
   const [draftEdits, setDraftEdits] = useState<
     Record<string, Partial<Record<EditableField, string>>>
   >({});
@@ -413,15 +1192,35 @@ export default function App() {
 
   // selection for bulk actions
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
-  const [bulkCategory, setBulkCategory] = useState<string>(categorySet[0]);
 
 
+  // offered after an inline Category edit: remember it as a merchant rule
+  const [learnPrompt, setLearnPrompt] = useState<{
+    id: string;
+    key: string;
+    category: string;
+  } | null>(null);
+
   // helper: commit draft edits for a row (merges into saved edits)
   const commitEditsFor = (id: string) => {
-    setEdits((prev) => ({
-      ...prev,
-      [id]: { ...(prev[id] || {}), ...(draftEdits[id] || {}) },
-    }));
+    const draft = draftEdits[id] || {};
+    const row = transformedAll.find((r) => r._id === id);
+    const current = (f: EditableField) =>
+      edits[id]?.[f] ?? (row ? String(row[f] ?? "") : "");
+    const changed = (Object.keys(draft) as EditableField[]).filter(
+      (f) => draft[f] !== current(f)
+    );
+    if (row && changed.includes("Category") && draft.Category) {
+      setLearnPrompt({ id, key: merchantKey(row.Name), category: draft.Category });
+    }
+    if (changed.length) {
+      applyTableChange(
+        `Edit ${changed.join(", ")}`,
+        `${row?.Name ?? id}: ` +
+          changed.map((f) => `${current(f) || "—"} → ${draft[f] || "—"}`).join("; "),
+        { edits: { ...edits, [id]: { ...(edits[id] || {}), ...draft } } }
+      );
+    }
     setDraftEdits((prev) => {
       const { [id]: _drop, ...rest } = prev;
       return rest;
@@ -429,12 +1228,42 @@ export default function App() {
     setEditing(null);
   };
 
-  const handleDeleteRow = (id: string) => {
-    setDeletedIds((prev) => {
-      const next = new Set(prev);
-      next.add(id);
+  // Drops the draft and leaves the cell as it was
+  const cancelEditsFor = (id: string) => {
+    setDraftEdits((prev) => {
+      const next = { ...prev };
+      delete next[id];
       return next;
     });
+    setEditing(null);
+  };
+
+  // Keys inside a cell editor: Enter saves and moves down (Shift+Enter up),
+  // Tab saves and moves across, Escape cancels. The grid then has the keyboard.
+  const editorKeyDown = (id: string) => (e: ReactKeyboardEvent) => {
+    if (e.key !== "Enter" && e.key !== "Tab" && e.key !== "Escape") return;
+    e.preventDefault();
+    if (e.key === "Escape") cancelEditsFor(id);
+    else {
+      commitEditsFor(id);
+      const key = e.key === "Tab" ? "Tab" : e.shiftKey ? "ArrowUp" : "ArrowDown";
+      const back = e.key === "Tab" && e.shiftKey;
+      const next = cursor && moveCursor(cursor, key, back, tableRows.length);
+      if (next) setCursor({ anchor: next.focus, focus: next.focus });
+    }
+    // after the editor is gone, so its blur does not save a second time
+    setTimeout(() => gridRef.current?.focus({ preventScroll: true }));
+  };
+
+  const handleDeleteRow = (id: string) => {
+    const row = transformedAll.find((r) => r._id === id);
+    const next = new Set(deletedIds);
+    next.add(id);
+    applyTableChange(
+      "Delete row",
+      row ? `${row.Name} (${row.Date}, ${row.Amount})` : id,
+      { deletedIds: next }
+    );
     setSelectedIds((prev) => {
       if (!prev.has(id)) return prev;
       const next = new Set(prev);
@@ -452,25 +1281,134 @@ export default function App() {
     });
   };
 
-  const handleBulkApplyCategory = () => {
-    if (!selectedIds.size) return;
-    setEdits((prev) => {
-      const next = { ...prev };
-      selectedIds.forEach((id) => {
-        const existing = next[id] || {};
-        next[id] = { ...existing, Category: bulkCategory };
-      });
-      return next;
+  const handleSaveSplit = (id: string, lines: SplitLine[]) => {
+    const row = transformedAll.find((r) => r._id === id);
+    applyTableChange(
+      splits[id] ? "Edit split" : "Split row",
+      `${row?.Name ?? id}: ` +
+        lines.map((l) => `${l.amount} ${l.category}`).join(" + "),
+      { splits: { ...splits, [id]: lines } }
+    );
+    setSplitting(null);
+  };
+
+  const handleRemoveSplit = (id: string) => {
+    const row = transformedAll.find((r) => r._id === id);
+    const next = { ...splits };
+    delete next[id];
+    applyTableChange("Remove split", row?.Name ?? id, { splits: next });
+    setSplitting(null);
+  };
+
+  const handleBulkAction = (action: BulkAction) => {
+    if (action.kind === "delete") {
+      const next = new Set(deletedIds);
+      selectedRows.forEach((r) => next.add(r._id));
+      applyTableChange(
+        bulkLabels.delete,
+        describeBulk(action, selectedRows.length),
+        { deletedIds: next }
+      );
+      setSelectedIds(new Set());
+      return;
+    }
+    const changes = bulkChanges(selectedRows, action);
+    const ids = Object.keys(changes);
+    if (!ids.length) return;
+    const next = { ...edits };
+    for (const id of ids) next[id] = { ...(next[id] || {}), ...changes[id] };
+    applyTableChange(bulkLabels[action.kind], describeBulk(action, ids.length), {
+      edits: next,
     });
   };
 
+  // Manual rows: a new one starts a session when nothing is loaded yet;
+  // saving an edited one folds its inline edits into the row
+  const handleSaveManual = (id: string | null, fields: Omit<ManualRow, "id">) => {
+    const row: ManualRow = { ...fields, id: id ?? newManualId() };
+    const detail = `${row.Name} (${row.Date}, ${row.Amount} ${row.Currency})`;
+    if (!id) {
+      applyTableChange("Add transaction", detail, {
+        manualRows: [...manualRows, row],
+      });
+      if (!sessionMeta && !files.length)
+        setSessionMeta({
+          hash: `manual-${Date.now()}`,
+          name: "Manual entries",
+          fileName: "Manual entries",
+          createdAt: new Date().toISOString(),
+        });
+    } else {
+      const patch: Partial<TableState> = {
+        manualRows: manualRows.map((m) => (m.id === id ? row : m)),
+      };
+      if (edits[id]) {
+        patch.edits = { ...edits };
+        delete patch.edits[id];
+      }
+      applyTableChange("Edit transaction", detail, patch);
+    }
+    setManualForm(null);
+  };
+
+  // Defaults for a new manual row, also used by quick-add
+  const manualDefaults = (): Omit<ManualRow, "id"> => {
+    const now = new Date();
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return {
+      Date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+      Type: "Expense",
+      Amount: "",
+      Currency: baseCurrency || manualRows.at(-1)?.Currency || "EUR",
+      Category: "",
+      Name: "",
+      Account: manualRows.at(-1)?.Account || "Cash",
+      Notes: "",
+    };
+  };
+
+  // Quick-add: "12.50 Coffee #Out"; without a tag, rules and heuristics pick the category
+  const handleQuickAdd = () => {
+    const parsed = parseQuickAdd(quickAdd, manualDefaults());
+    if (!parsed) {
+      setErrors(["Quick add needs an amount and a name, e.g. \"12.50 Coffee #Out\"."]);
+      return;
+    }
+    let category = "";
+    if (parsed.Category) {
+      const tag = parsed.Category.toLowerCase();
+      category =
+        categories.find((c) => c.toLowerCase() === tag) ??
+        resolveCategory(taxonomy, parsed.Category);
+      if (!categories.includes(category)) {
+        setErrors([`Unknown category "${parsed.Category}".`]);
+        return;
+      }
+    }
+    const rule = findRule(rules, {
+      Name: parsed.Name,
+      Amount: parseFloat(parsed.Amount),
+      Type: parsed.Type,
+      Currency: parsed.Currency,
+    });
+    setErrors([]);
+    handleSaveManual(null, {
+      ...parsed,
+      Category:
+        category ||
+        resolveCategory(taxonomy, rule?.category || heuristicCategory(parsed.Name)),
+      Notes: rule?.notes || "",
+    });
+    setQuickAdd("");
+  };
 
   useEffect(() => {
     const s = localStorage.getItem("rcvt_settings");
     if (s) {
       try {
         const obj = JSON.parse(s);
-        setApiKey(obj.apiKey ?? "");
+        // a key saved before providers existed was an OpenAI key
+        setApiKeys(obj.apiKeys ?? (obj.apiKey ? { openai: obj.apiKey } : {}));
         setSource(obj.source ?? "Revolut");
         setWebsiteName(obj.websiteName ?? siteNameDefault);
         setDateField(obj.dateField ?? "Completed Date");
@@ -478,175 +1416,828 @@ export default function App() {
           typeof obj.onlyCompleted === "boolean" ? obj.onlyCompleted : true
         );
         setModel(obj.model ?? "gpt-4o-mini");
+        setProviderId(obj.provider ?? "openai");
         setTypeFilter(obj.typeFilter ?? "Both");
+        setExportProfile(obj.exportProfile ?? defaultExportProfile.name);
+        setExportFormat(obj.exportFormat ?? "csv");
+        setExportScope(obj.exportScope ?? "all");
+        setBaseCurrency(obj.baseCurrency ?? "");
+        setTransferMode(obj.transferMode ?? "linked");
+        setFeeMode(obj.feeMode ?? "column");
       } catch {}
     }
   }, []);
 
   useEffect(() => {
     const payload = {
-      apiKey,
+      apiKeys,
       source,
       websiteName,
       dateField,
       onlyCompleted,
       model,
+      provider: providerId,
       typeFilter,
+      exportProfile,
+      exportFormat,
+      exportScope,
+      baseCurrency,
+      transferMode,
+      feeMode,
     };
     localStorage.setItem("rcvt_settings", JSON.stringify(payload));
   }, [
-    apiKey,
+    apiKeys,
     source,
     websiteName,
     dateField,
     onlyCompleted,
     model,
+    providerId,
     typeFilter,
+    exportProfile,
+    exportFormat,
+    exportScope,
+    baseCurrency,
+    transferMode,
+    feeMode,
   ]);
 
   // Upload & processing state
-  const [rawRows, setRawRows] = useState<any[]>([]);
+  // Uploaded statements, combined into one table in name order
+  const [files, setFiles] = useState<ImportedFile[]>([]);
   const [errors, setErrors] = useState<string[]>([]);
   const [status, setStatus] = useState<string>("");
   const [categoryMap, setCategoryMap] = useState<Record<string, string>>({});
+  // rows reviewed as "not a duplicate"
+  const [keptDuplicates, setKeptDuplicates] = useState<Set<string>>(new Set());
+  // split rows: parent id → child lines
+  const [splits, setSplits] = useState<Splits>({});
+  const [splitting, setSplitting] = useState<string | null>(null);
+  // manually entered rows; the form is open for "new" or a row id
+  const [manualRows, setManualRows] = useState<ManualRow[]>([]);
+  const [manualForm, setManualForm] = useState<string | null>(null);
+  const [quickAdd, setQuickAdd] = useState<string>("");
   const fileRef = useRef<HTMLInputElement | null>(null);
+  const folderRef = useRef<HTMLInputElement | null>(null);
+
+  // Undo/redo over table mutations; entries keep only the parts they changed
+  type TableState = {
+    edits: typeof edits;
+    deletedIds: Set<string>;
+    categoryMap: Record<string, string>;
+    keptDuplicates: Set<string>;
+    splits: Splits;
+    manualRows: ManualRow[];
+  };
+  const [history, setHistory] = useState<History<Partial<TableState>>>(() =>
+    emptyHistory()
+  );
+
+  const restoreTable = (s: Partial<TableState>) => {
+    if (s.edits) setEdits(s.edits);
+    if (s.deletedIds) setDeletedIds(s.deletedIds);
+    if (s.categoryMap) setCategoryMap(s.categoryMap);
+    if (s.keptDuplicates) setKeptDuplicates(s.keptDuplicates);
+    if (s.splits) setSplits(s.splits);
+    if (s.manualRows) setManualRows(s.manualRows);
+  };
+
+  // Category renames and merges in every part of a table state that has them
+  const migrateTable = (
+    s: Partial<TableState>,
+    move: (category: string) => string
+  ): Partial<TableState> => {
+    const out = { ...s };
+    if (s.edits)
+      out.edits = Object.fromEntries(
+        Object.entries(s.edits).map(([id, e]) => [
+          id,
+          e.Category === undefined ? e : { ...e, Category: move(e.Category) },
+        ])
+      );
+    if (s.categoryMap)
+      out.categoryMap = Object.fromEntries(
+        Object.entries(s.categoryMap).map(([k, c]) => [k, move(c)])
+      );
+    if (s.splits)
+      out.splits = Object.fromEntries(
+        Object.entries(s.splits).map(([id, lines]) => [
+          id,
+          lines.map((l) => ({ ...l, category: move(l.category) })),
+        ])
+      );
+    if (s.manualRows)
+      out.manualRows = s.manualRows.map((m) => ({
+        ...m,
+        Category: move(m.Category),
+      }));
+    return out;
+  };
+
+  const applyTableChange = (
+    label: string,
+    detail: string,
+    patch: Partial<TableState>
+  ) => {
+    const current: TableState = {
+      edits,
+      deletedIds,
+      categoryMap,
+      keptDuplicates,
+      splits,
+      manualRows,
+    };
+    const before: Partial<TableState> = {};
+    if (patch.edits) before.edits = current.edits;
+    if (patch.deletedIds) before.deletedIds = current.deletedIds;
+    if (patch.categoryMap) before.categoryMap = current.categoryMap;
+    if (patch.keptDuplicates) before.keptDuplicates = current.keptDuplicates;
+    if (patch.splits) before.splits = current.splits;
+    if (patch.manualRows) before.manualRows = current.manualRows;
+    setHistory((h) => pushHistory(h, { label, detail, before, after: patch }));
+    restoreTable(patch);
+  };
+
+  function handleUndo() {
+    const step = undoHistory(history);
+    if (!step) return;
+    setHistory(step.history);
+    restoreTable(step.entry.before);
+    setLearnPrompt(null);
+    setStatus(`Undid: ${step.entry.label}.`);
+  }
+
+  function handleRedo() {
+    const step = redoHistory(history);
+    if (!step) return;
+    setHistory(step.history);
+    restoreTable(step.entry.after);
+    setLearnPrompt(null);
+    setStatus(`Redid: ${step.entry.label}.`);
+  }
+
+  // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo; form fields keep their own undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const el = e.target as HTMLElement | null;
+      if (el?.closest("input, textarea, select, [contenteditable=true]")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) handleUndo();
+      else if ((key === "z" && e.shiftKey) || key === "y") handleRedo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  // Saved column mappings for CSV layouts no bank adapter recognizes
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>(
+    () => loadMappingProfiles()
+  );
+  const [pendingMapping, setPendingMapping] = useState<{
+    profile: MappingProfile;
+    file: ParsedFile;
+    done: ImportedFile[]; // files before it, already resolved
+    rest: ParsedFile[]; // files after it, still to resolve
+  } | null>(null);
+
+  // Working session persisted to IndexedDB (null = nothing to save)
+  const [sessionMeta, setSessionMeta] = useState<{
+    hash: string;
+    name: string;
+    fileName: string;
+    createdAt: string;
+  } | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
 
-  const expectedHeaders = [
-    "Type",
-    "Product",
-    "Started Date",
-    "Completed Date",
-    "Description",
-    "Amount",
-    "Fee",
-    "Currency",
-    "State",
-    "Balance",
-  ];
-
-  async function onFileSelected(file: File) {
-    setStatus("Parsing CSV...");
+  // User category rules, evaluated before LLM results and heuristics
+  const [rules, setRules] = useState<CategoryRule[]>(() => loadRules());
+  const updateRules = (next: CategoryRule[]) => {
+    setRules(next);
+    saveRules(next);
+  };
+
+  // Monthly category budgets (Dashboard)
+  const [budgets, setBudgets] = useState<Budget[]>(() => loadBudgets());
+  const updateBudgets = (next: Budget[]) => {
+    setBudgets(next);
+    saveBudgets(next);
+  };
+
+  // Taxonomy edits; renames/merges/deletes carry edits, rules, budgets and LLM results along
+  const updateTaxonomy = (next: Taxonomy, migrate?: Record<string, string>) => {
+    setTaxonomy(next);
+    saveTaxonomy(next);
+    if (!migrate) return;
+    const move = (c: string) => migrate[c] ?? c;
+    restoreTable(
+      migrateTable({ edits, categoryMap, splits, manualRows }, move)
+    );
+    // undo and redo must not bring back the old names
+    setHistory((h) => mapHistory(h, (s) => migrateTable(s, move)));
+    updateRules(rules.map((r) => ({ ...r, category: move(r.category) })));
+    updateBudgets(migrateBudgets(budgets, move));
+  };
+
+  const adapter = useMemo(
+    () => sourceAdapter(source, mappingProfiles),
+    [mappingProfiles, source]
+  );
+
+  const fileAdapters = useMemo(
+    () => files.map((f) => sourceAdapter(f.source, mappingProfiles)),
+    [files, mappingProfiles]
+  );
+
+  // Account follows the file's source until the user names it
+  const updateFile = (
+    i: number,
+    patch: Partial<Pick<ImportedFile, "source" | "account">>
+  ) => {
+    setFiles((prev) =>
+      prev.map((f, j) =>
+        j !== i
+          ? f
+          : {
+              ...f,
+              ...patch,
+              account:
+                patch.account ??
+                (patch.source && f.account === f.source
+                  ? patch.source
+                  : f.account),
+            }
+      )
+    );
+  };
+
+  const updateExportProfiles = (
+    next: ExportProfile[],
+    renamed?: { from: string; to: string }
+  ) => {
+    setExportProfiles(next);
+    saveExportProfiles(next);
+    if (renamed && exportProfile === renamed.from) setExportProfile(renamed.to);
+    // the selected profile was deleted
+    else if (!next.some((p) => p.name === exportProfile))
+      setExportProfile(defaultExportProfile.name);
+  };
+
+  const updateMappingProfiles = (next: MappingProfile[]) => {
+    setMappingProfiles(next);
+    saveMappingProfiles(next);
+  };
+
+  async function onFilesSelected(list: File[]) {
+    if (!list.length) {
+      setErrors(["No CSV files selected."]);
+      return;
+    }
+    setStatus(list.length > 1 ? `Parsing ${list.length} CSV files...` : "Parsing CSV...");
     setErrors([]);
+    setFiles([]);
     setCategoryMap({});
     setEdits({});
     setDraftEdits({});
     setDeletedIds(new Set());
+    setKeptDuplicates(new Set());
+    setSplits({});
+    setSplitting(null);
+    setManualRows([]);
+    setManualForm(null);
     setSelectedIds(new Set());
-
-    const text = await file.text();
-    let data: any[] = [];
-    let parseErrors: any[] = [];
-
-    if (PapaRef) {
-      const parsed = PapaRef.parse(text, {
-        header: true,
-        skipEmptyLines: true,
-      });
-      data = parsed.data as any[];
-      parseErrors = parsed.errors || [];
-    } else {
-      const parsed = fallbackParse(text);
-      data = parsed.data;
-      parseErrors = parsed.errors;
+    setHistory(emptyHistory());
+    setTableFilter(null);
+    setPendingMapping(null);
+    setLearnPrompt(null);
+    setSessionMeta(null);
+
+    const parsed: ParsedFile[] = [];
+    const named = list.map((file) => ({
+      name: file.webkitRelativePath || file.name,
+      file,
+    }));
+    try {
+      for (const { name, file } of sortFiles(named)) {
+        const p = await readCsv(name, await file.text());
+        // the same export picked twice would give every row two ids alike
+        const same = parsed.find((x) => x.hash === p.hash);
+        if (same)
+          setErrors((x) => [
+            ...x,
+            `Skipped ${name}: same content as ${same.name}.`,
+          ]);
+        else parsed.push(p);
+      }
+    } catch (e) {
+      setStatus("");
+      setErrors((x) => [...x, `Could not read the files: ${String(e)}`]);
+      return;
     }
+    continueImport(parsed, [], mappingProfiles);
+  }
+
+  async function readCsv(name: string, text: string): Promise<ParsedFile> {
+    const hash = await hashText(text);
+    const {
+      data,
+      errors: parseErrors,
+      fields: headers,
+    } = parseCsvText(text);
 
     if (parseErrors.length) {
       setErrors((e) => [
         ...e,
-        `Parsing issues: ${parseErrors
+        `Parsing issues in ${name}: ${parseErrors
           .slice(0, 3)
           .map((x: any) => x.message || x)
           .join(" | ")}`,
       ]);
     }
+    return { name, hash, headers, rows: data };
+  }
+
+  // Pick each file's bank adapter from its header signature, then a saved column
+  // mapping for its exact header set; stop at the first unknown layout and ask
+  // the user to map its columns (the wizard continues with the remaining files).
+  function continueImport(
+    pending: ParsedFile[],
+    done: ImportedFile[],
+    profiles: MappingProfile[]
+  ) {
+    const resolved = [...done];
+    for (let i = 0; i < pending.length; i++) {
+      const p = pending[i];
+      const saved = findProfileForHeaders(profiles, p.headers);
+      const detected =
+        detectAdapter(p.headers) || (saved ? profileAdapter(saved) : null);
+      if (!detected) {
+        setPendingMapping({
+          profile: guessProfile(
+            p.name.replace(/^.*\//, "").replace(/\.[^.]+$/, ""),
+            p.headers
+          ),
+          file: p,
+          done: resolved,
+          rest: pending.slice(i + 1),
+        });
+        setStatus(
+          `Loaded ${p.rows.length} rows from ${p.name} in an unknown layout. Map the columns to continue.`
+        );
+        return;
+      }
+      resolved.push(importedFile(p, detected.id));
+    }
+    finishImport(resolved, profiles);
+  }
 
-    // Basic header validation
-    const headerLine = text.split(/\r?\n/)[0] || "";
-    const headers = headerLine.split(",").map((s) => s.trim());
-    const missing = expectedHeaders.filter((h) => !headers.includes(h));
-    if (missing.length) {
-      setErrors((e) => [
-        ...e,
-        `Missing expected columns: ${missing.join(", ")}. Got: ${headers.join(
-          ", "
-        )}`,
-      ]);
+  async function finishImport(
+    loaded: ImportedFile[],
+    profiles: MappingProfile[]
+  ) {
+    if (!loaded.length) return;
+    const hash = await filesHash(loaded);
+    const previous = await getSession(hash).catch(() => null);
+    // account names chosen earlier for these files
+    const next = loaded.map((f) => ({
+      ...f,
+      account:
+        previous?.files?.find((x) => x.hash === f.hash)?.account ?? f.account,
+    }));
+    setFiles(next);
+    setSource(next[0].source);
+    startSession(
+      hash,
+      next.length === 1 ? next[0].name : `${next.length} files`,
+      previous
+    );
+
+    // Overlapping statements: drop rows that repeat a row of another file
+    let dropped = 0;
+    if (!previous && next.length > 1) {
+      const rows = combineFiles(
+        next,
+        next.map((f) => sourceAdapter(f.source, profiles)),
+        dateField
+      );
+      const fileOf = new Map(rows.map((r) => [rowId(r), r.file]));
+      const drop = new Set(
+        findDuplicates(
+          rows.map((r) => ({ id: rowId(r), key: duplicateKey(r) })),
+          new Map()
+        )
+          .filter(
+            (d) => d.originalId && fileOf.get(d.originalId) !== fileOf.get(d.id)
+          )
+          .map((d) => d.id)
+      );
+      if (drop.size) {
+        setDeletedIds(drop);
+        setHistory(
+          pushHistory(emptyHistory(), {
+            label: "Drop duplicates across files",
+            detail: `${drop.size} ${drop.size === 1 ? "row" : "rows"}`,
+            before: { deletedIds: new Set<string>() },
+            after: { deletedIds: drop },
+          })
+        );
+      }
+      dropped = drop.size;
     }
 
-    setRawRows(data);
-    setStatus(`Loaded ${data.length} rows.`);
+    const total = next.reduce((n, f) => n + f.rows.length, 0);
+    const formats = Array.from(new Set(next.map((f) => f.source))).join(", ");
+    setStatus(
+      (next.length === 1
+        ? `Loaded ${total} rows (${formats} format).`
+        : `Loaded ${total} rows from ${next.length} files (${formats}).`) +
+        (dropped
+          ? ` Dropped ${dropped} ${dropped === 1 ? "row" : "rows"} repeated across files.`
+          : "") +
+        (previous ? ` Restored saved session "${previous.name}".` : "")
+    );
+  }
+
+  // Restores the saved working state for this upload, or starts a fresh session
+  function startSession(
+    hash: string,
+    fileName: string,
+    previous: Session | null
+  ) {
+    setSessionMeta({
+      hash,
+      fileName,
+      name: previous?.name ?? fileName,
+      createdAt: previous?.createdAt ?? new Date().toISOString(),
+    });
+    if (!previous) return;
+    setEdits(previous.edits as typeof edits);
+    setDeletedIds(new Set(previous.deletedIds));
+    setCategoryMap(previous.categoryMap);
+    setKeptDuplicates(new Set(previous.keptDuplicates ?? []));
+    setSplits(previous.splits ?? {});
+    setManualRows(previous.manualRows ?? []);
+  }
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch((e) => console.warn("Saved sessions unavailable:", e));
+  }, []);
+
+  // Autosave the working state (debounced)
+  useEffect(() => {
+    if (!sessionMeta || (!files.length && !manualRows.length)) return;
+    const timer = setTimeout(() => {
+      const session: Session = {
+        ...sessionMeta,
+        source: files[0]?.source ?? source,
+        updatedAt: new Date().toISOString(),
+        ...packFiles(files),
+        edits,
+        deletedIds: Array.from(deletedIds),
+        categoryMap,
+        keptDuplicates: Array.from(keptDuplicates),
+        splits,
+        manualRows,
+      };
+      putSession(session)
+        .then(() =>
+          setSessions((prev) => [
+            summarizeSession(session),
+            ...prev.filter((x) => x.hash !== session.hash),
+          ])
+        )
+        .catch((e) => console.warn("Could not save session:", e));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [
+    sessionMeta,
+    files,
+    edits,
+    deletedIds,
+    categoryMap,
+    keptDuplicates,
+    splits,
+    manualRows,
+    source,
+  ]);
+
+  async function handleResumeSession(hash: string) {
+    const s = await getSession(hash).catch(() => null);
+    if (!s) {
+      setErrors((x) => [...x, "Saved session not found."]);
+      return;
+    }
+    setErrors([]);
+    setDraftEdits({});
+    setSelectedIds(new Set());
+    setHistory(emptyHistory());
+    setTableFilter(null);
+    setPendingMapping(null);
+    setLearnPrompt(null);
+    setSource(s.source);
+    setFiles(sessionFiles(s));
+    setEdits(s.edits as typeof edits);
+    setDeletedIds(new Set(s.deletedIds));
+    setCategoryMap(s.categoryMap);
+    setKeptDuplicates(new Set(s.keptDuplicates ?? []));
+    setSplits(s.splits ?? {});
+    setSplitting(null);
+    setManualRows(s.manualRows ?? []);
+    setManualForm(null);
+    setSessionMeta({
+      hash: s.hash,
+      name: s.name,
+      fileName: s.fileName,
+      createdAt: s.createdAt,
+    });
+    if (fileRef.current) fileRef.current.value = "";
+    if (folderRef.current) folderRef.current.value = "";
+    setStatus(
+      `Resumed session "${s.name}" (${
+        s.rawRows.length + (s.manualRows?.length ?? 0)
+      } rows).`
+    );
+  }
+
+  async function handleRenameSession(hash: string, name: string) {
+    if (sessionMeta?.hash === hash) {
+      // autosave picks the new name up
+      setSessionMeta({ ...sessionMeta, name });
+      return;
+    }
+    try {
+      const s = await getSession(hash);
+      if (!s) return;
+      await putSession({ ...s, name });
+      setSessions((prev) =>
+        prev.map((x) => (x.hash === hash ? { ...x, name } : x))
+      );
+    } catch (e) {
+      setErrors((x) => [...x, `Could not rename session: ${String(e)}`]);
+    }
+  }
+
+  async function handleDiscardSession(hash: string) {
+    try {
+      await deleteSession(hash);
+      setSessions((prev) => prev.filter((x) => x.hash !== hash));
+      // keep the rows on screen but stop saving them
+      if (sessionMeta?.hash === hash) setSessionMeta(null);
+    } catch (e) {
+      setErrors((x) => [...x, `Could not discard session: ${String(e)}`]);
+    }
+  }
+
+  function handleSaveMapping(profile: MappingProfile) {
+    if (!pendingMapping) return;
+    const profiles = [...mappingProfiles, profile];
+    updateMappingProfiles(profiles);
+    const { file, done, rest } = pendingMapping;
+    setPendingMapping(null);
+    continueImport(rest, [...done, importedFile(file, profile.name)], profiles);
+  }
+  function handleCancelMapping() {
+    if (!pendingMapping) return;
+    // Previous behavior: load with the selected adapter and report what's missing
+    const { file, done, rest, profile } = pendingMapping;
+    const missing = missingHeaders(adapter, profile.headers);
+    setErrors((e) => [
+      ...e,
+      `${file.name}: missing expected ${adapter.id} columns: ${missing.join(
+        ", "
+      )}. Got: ${profile.headers.join(", ")}`,
+    ]);
+    setPendingMapping(null);
+    continueImport(
+      rest,
+      [...done, importedFile(file, adapter.id)],
+      mappingProfiles
+    );
   }
 
+  // Raw CSV records mapped onto the shared NormalizedRow shape by the bank adapter
+  const normalizedRows = useMemo(() => {
+    return combineFiles(files, fileAdapters, dateField);
+  }, [files, fileAdapters, dateField]);
+
   const filteredRows = useMemo(() => {
-    const rows = (rawRows || []).filter(
-      (r) => !!r && Object.keys(r).length > 0
-    );
     return onlyCompleted
-      ? rows.filter((r) => (r["State"] || "").toUpperCase() === "COMPLETED")
-      : rows;
-  }, [rawRows, onlyCompleted]);
+      ? normalizedRows.filter((r) => r.State === "COMPLETED")
+      : normalizedRows;
+  }, [normalizedRows, onlyCompleted]);
 
   const uniqueNames = useMemo(() => {
     const s = new Set<string>();
     for (const r of filteredRows) {
-      const name = (r["Description"] || "").trim();
-      if (name) s.add(name);
+      if (r.Name) s.add(r.Name);
     }
     return Array.from(s);
   }, [filteredRows]);
 
+  // First matching user rule per filtered row (null = fall through to LLM/heuristics)
+  const ruleHits = useMemo(() => {
+    return filteredRows.map((r) =>
+      findRule(rules, {
+        Name: r.Name,
+        Amount: Math.abs(r.Amount || 0),
+        Type: r.Amount < 0 ? "Expense" : "Income",
+        Currency: r.Currency,
+      })
+    );
+  }, [filteredRows, rules]);
+
+  // Names with at least one row no rule covers; only these go to the LLM
+  const llmNames = useMemo(() => {
+    const s = new Set<string>();
+    filteredRows.forEach((r, i) => {
+      if (r.Name && !ruleHits[i]) s.add(r.Name);
+    });
+    return Array.from(s);
+  }, [filteredRows, ruleHits]);
+
+  // Revolut EXCHANGE/TRANSFER legs matched by start time and amount; other
+  // banks use the same kinds for ordinary payments
+  const transfers = useMemo(
+    () =>
+      pairTransfers(
+        filteredRows
+          .filter((r) => fileAdapters[r.file]?.pairsTransfers)
+          .map((r) => ({ ...r, id: rowId(r) }))
+      ),
+    [filteredRows, fileAdapters]
+  );
+
+  // Bank balances that do not follow from the previous balance and the amounts
+  const balanceIssues = useMemo(
+    () =>
+      reconcileBalances(
+        normalizedRows.map((r) => ({
+          ...r,
+          id: rowId(r),
+          account: `${r.file}|${r.Currency}`,
+          inAmount: !!fileAdapters[r.file]?.feeInAmount,
+        }))
+      ),
+    [normalizedRows, fileAdapters]
+  );
+
+  const hasFees = useMemo(
+    () => filteredRows.some((r) => r.Fee),
+    [filteredRows]
+  );
+  const hasBalance = useMemo(
+    () => filteredRows.some((r) => r.Balance),
+    [filteredRows]
+  );
+  // edits and deletions of fee rows, kept for when they are shown again
+  const hiddenFeeChanges = useMemo(
+    () =>
+      feeMode === "split"
+        ? 0
+        : new Set(
+            [...Object.keys(edits), ...deletedIds].filter((id) =>
+              id.endsWith(":fee")
+            )
+          ).size,
+    [feeMode, edits, deletedIds]
+  );
+
   const transformedAll = useMemo(() => {
-    return filteredRows.map((r, i) => {
-      // Parse numeric amount: accept both comma and dot decimals; keep sign for type inference
-      const amtNum = parseAmount((r["Amount"] ?? "0").toString());
-      const type = amtNum < 0 ? "Expense" : "Income";
-      const amountAbs = Math.abs(amtNum || 0).toFixed(2);
-      const name = (r["Description"] || "").toString();
-      const category = categoryMap[name] || heuristicCategory(name);
-      const _id =
-        [
-          r["Started Date"],
-          r["Completed Date"],
-          r["Description"],
-          r["Amount"],
-          r["Currency"],
-          r["State"],
-          r["Balance"],
-        ]
-          .map((x) => (x ?? "").toString())
-          .join("|") + `|${i}`; // i suffix ensures uniqueness among true duplicates
-
-      const dateVal = toISODate(
-        r[dateField] || r["Completed Date"] || r["Started Date"] || ""
+    const rows = filteredRows.flatMap((r, i) => {
+      const _id = rowId(r);
+      const link = transfers.get(_id);
+      const parts = feeParts(
+        r.Amount,
+        r.Fee,
+        !!fileAdapters[r.file]?.feeInAmount,
+        feeMode
+      );
+      // Sign of the normalized amount drives the type; export keeps it absolute
+      const type = link ? "Transfer" : parts.amount < 0 ? "Expense" : "Income";
+      const amountAbs = Math.abs(parts.amount || 0).toFixed(2);
+      const name = r.Name;
+      const rule = ruleHits[i];
+      const category = resolveCategory(
+        taxonomy,
+        rule?.category ||
+          (link ? "Transfers" : categoryMap[name] || heuristicCategory(name))
       );
-      return {
+
+      const row = {
         _id,
-        Date: dateVal,
+        Date: r.Date,
         Type: type,
         Amount: amountAbs,
-        Currency: (r["Currency"] || "").toString(),
+        Currency: r.Currency,
         Category: category,
         Name: name,
-        Account: source || "Revolut",
-        Notes: "",
+        Account: files[r.file]?.account || fileAdapters[r.file]?.id || "",
+        Notes: rule?.notes || "",
         Source: websiteName || siteNameDefault,
+        File: files[r.file]?.name ?? "",
+        Direction: parts.amount < 0 ? "out" : "in",
+        TransferId: link?.pair ?? "",
+        _linked: link?.other ?? "",
+        Fee: parts.column ? parts.column.toFixed(2) : "",
+        Balance: r.Balance ? parseAmount(r.Balance).toFixed(2) : "",
+        // tied to the row, like the fee row's own id
+        FeeId: parts.fee ? `FEE-${r.fileHash.slice(0, 8)}-${r.index + 1}` : "",
       };
+      if (!parts.fee) return [row];
+      // the fee becomes its own expense right after the row it was charged on
+      return [
+        row,
+        {
+          ...row,
+          _id: `${_id}:fee`,
+          Type: "Expense",
+          Amount: Math.abs(parts.fee).toFixed(2),
+          Category: resolveCategory(taxonomy, "Fees"),
+          Name: `Fee: ${name}`,
+          Notes: "",
+          Direction: "out",
+          TransferId: "",
+          _linked: "",
+          Balance: "",
+        },
+      ];
     });
-  }, [filteredRows, categoryMap, dateField, source, websiteName]);
-
-  const transformedFiltered = useMemo(() => {
-    if (typeFilter === "Both") return transformedAll;
-    return transformedAll.filter((r) => r.Type === typeFilter);
-  }, [transformedAll, typeFilter]);
+    // manual rows come after the statements, marked by their Source
+    return rows.concat(
+      manualRows.map((m) => ({
+        _id: m.id,
+        Date: m.Date,
+        Type: m.Type,
+        Amount: m.Amount,
+        Currency: m.Currency,
+        Category: resolveCategory(taxonomy, m.Category),
+        Name: m.Name,
+        Account: m.Account,
+        Notes: m.Notes,
+        Source: manualSource,
+        File: "",
+        Direction: m.Type === "Income" ? "in" : "out",
+        TransferId: "",
+        _linked: "",
+        Fee: "",
+        Balance: "",
+        FeeId: "",
+      }))
+    );
+  }, [
+    filteredRows,
+    transfers,
+    feeMode,
+    ruleHits,
+    categoryMap,
+    taxonomy,
+    files,
+    fileAdapters,
+    websiteName,
+    manualRows,
+  ]);
 
-  const visibleRows = useMemo(() => {
-    return transformedFiltered
+  // Every row with its edits, before the Type filter
+  const editedRows = useMemo(() => {
+    const rows = transformedAll
+      .filter((row) => !deletedIds.has(row._id))
+      .filter((row) => transferMode !== "excluded" || !row.TransferId)
+      .map((row) => ({ ...row, ...edits[row._id] }));
+    // split rows become their lines, which can be edited and deleted in turn
+    return expandSplits(rows, splits)
       .filter((row) => !deletedIds.has(row._id))
       .map((row: any) => {
         const e = edits[row._id] || {};
-        return { ...row, ...e };
+        const merged = { ...row, ...e };
+        // a Type override moves the money the other way; transfers keep their leg
+        if (e.Type === "Expense" || e.Type === "Income")
+          merged.Direction = e.Type === "Expense" ? "out" : "in";
+        // converted after edits so an edited Date or Amount picks the right rate
+        return { ...merged, ...baseAmount(fxTable, baseCurrency, merged) };
       });
-  }, [transformedFiltered, edits, deletedIds]);
+  }, [
+    transformedAll,
+    edits,
+    splits,
+    deletedIds,
+    transferMode,
+    fxTable,
+    baseCurrency,
+  ]);
+
+  // after edits, so a Type override moves the row to the other filter
+  const visibleRows = useMemo(
+    () =>
+      typeFilter === "Both"
+        ? editedRows
+        : editedRows.filter((row) => row.Type === typeFilter),
+    [editedRows, typeFilter]
+  );
 
   const sortedRows = useMemo(() => {
     // sort ascending by ISO Date (fallback to "" so undefined dates go last)
@@ -660,47 +2251,578 @@ export default function App() {
     });
   }, [visibleRows]);
 
+  // Dashboard chart clicks narrow the table down to the rows behind the bar;
+  // the export still covers every row
+  const [tableFilter, setTableFilter] = useState<DashboardFilter | null>(null);
+
+  // Rows as the dashboard sees them: in the base currency where a rate exists
+  const analyticsRows = useMemo(
+    () =>
+      sortedRows.map((r) =>
+        r.AmountBase
+          ? { ...r, Amount: r.AmountBase, Currency: baseCurrency }
+          : r
+      ),
+    [sortedRows, baseCurrency]
+  );
+
+  const rowsById = useMemo(
+    () => new Map(sortedRows.map((r) => [r._id, r])),
+    [sortedRows]
+  );
+
+  // Search, filters and sort order of the table
+  const [view, setView] = useState<TableView>(defaultView);
+  const [savedViews, setSavedViews] = useState<SavedView[]>(() =>
+    loadSavedViews()
+  );
+  const updateSavedViews = (next: SavedView[]) => {
+    setSavedViews(next);
+    saveSavedViews(next);
+  };
+
+  const viewRows = useMemo(() => {
+    // a selected parent category includes its subcategories
+    const chosen = new Set(view.categories);
+    for (const c of taxonomy.categories)
+      if (c.parent && chosen.has(c.parent)) chosen.add(c.name);
+    const rows = sortedRows.filter(
+      (r, i) =>
+        (!tableFilter || matchesFilter(analyticsRows[i], tableFilter)) &&
+        matchesView(
+          r,
+          view,
+          chosen,
+          !!r.SplitId || Object.keys(edits[r._id] || {}).length > 0
+        )
+    );
+    return sortRows(rows, view.sortBy, view.sortDir);
+  }, [sortedRows, analyticsRows, tableFilter, view, taxonomy, edits]);
+
+  // Collapsed transfers show the outgoing leg only; the export keeps both
+  const tableRows = useMemo(() => {
+    return viewRows.filter(
+      (r) =>
+        !(
+          transferMode === "collapsed" &&
+          r.Direction === "in" &&
+          rowsById.has(r._linked)
+        )
+    );
+  }, [viewRows, transferMode, rowsById]);
+
+  // Selected rows, including ones the current filters (and the Type filter) hide
+  const selectedRows = useMemo(
+    () => editedRows.filter((r) => selectedIds.has(r._id)),
+    [editedRows, selectedIds]
+  );
+
+  const rowCurrencies = useMemo(
+    () => Array.from(new Set(sortedRows.map((r) => r.Currency))).sort(),
+    [sortedRows]
+  );
+
+  // Header click sorts by the column; a second click flips the direction
+  function sortBy(column: string) {
+    setView((v) => ({
+      ...v,
+      sortBy: column,
+      sortDir: v.sortBy === column && v.sortDir === "asc" ? "desc" : "asc",
+    }));
+  }
+
+  // ---- Keyboard grid over the editable cells ----
+
+  // Opens the cell editor; a typed character replaces text cells' content
+  function startEdit(row: number, col: number, typed?: string) {
+    const r = tableRows[row];
+    const field = gridFields[col];
+    if (!r) return;
+    setCursor({ anchor: { row, col }, focus: { row, col } });
+    // split lines must keep adding up, so their amounts change in the editor
+    if (field === "Amount" && r.SplitId) {
+      setSplitting(splitParentId(r._id));
+      return;
+    }
+    if (typed !== undefined && (field === "Amount" || field === "Notes"))
+      setDraftEdits((d) => ({
+        ...d,
+        [r._id]: { ...(d[r._id] || {}), [field]: typed },
+      }));
+    setEditing({ id: r._id, field });
+  }
+
+  // Click edits the cell; Shift+click extends the range from the cursor
+  const cellClick = (row: number, col: number) => (e: ReactMouseEvent) => {
+    if (e.shiftKey && cursor) {
+      setCursor({ anchor: cursor.anchor, focus: { row, col } });
+      gridRef.current?.focus({ preventScroll: true });
+    } else startEdit(row, col);
+  };
+
+  const cellClass = (row: number, col: number) =>
+    classNames(
+      "px-3 py-2 whitespace-nowrap",
+      cursor && inRange(cursor, row, col) && "bg-indigo-100",
+      cursor?.focus.row === row &&
+        cursor.focus.col === col &&
+        "ring-2 ring-inset ring-indigo-400"
+    );
+
+  // One history step for many cells; values that do not fit are skipped
+  function applyCellEdits(
+    label: string,
+    cells: { id: string; field: GridField; value: string }[]
+  ) {
+    const next = { ...edits };
+    let n = 0;
+    for (const c of cells) {
+      const row = rowsById.get(c.id);
+      if (!row || (c.field === "Amount" && row.SplitId)) continue;
+      const value = cellValue(c.field, c.value, (name) => {
+        const resolved = resolveCategory(taxonomy, name);
+        return categories.includes(resolved) ? resolved : null;
+      });
+      if (value === null || value === (next[c.id]?.[c.field] ?? row[c.field]))
+        continue;
+      next[c.id] = { ...(next[c.id] || {}), [c.field]: value };
+      n++;
+    }
+    if (!n) {
+      setStatus(`${label}: nothing to change.`);
+      return;
+    }
+    applyTableChange(label, `${n} ${n === 1 ? "cell" : "cells"}`, {
+      edits: next,
+    });
+  }
+
+  // Ctrl+D copies the top Category/Notes of the range down; with a single
+  // cell it goes to every selected row instead
+  function fillDown(range: CellRange) {
+    const b = rangeBounds(range);
+    const single = b.top === b.bottom;
+    const cells: { id: string; field: GridField; value: string }[] = [];
+    for (let col = b.left; col <= b.right; col++) {
+      const field = gridFields[col];
+      if (field !== "Category" && field !== "Notes") continue;
+      const value = tableRows[b.top]?.[field] ?? "";
+      const targets = single
+        ? Array.from(selectedIds)
+        : tableRows.slice(b.top + 1, b.bottom + 1).map((r) => r._id);
+      for (const id of targets) cells.push({ id, field, value });
+    }
+    applyCellEdits("Fill down", cells);
+  }
+
+  function handleGridKeyDown(e: ReactKeyboardEvent<HTMLDivElement>) {
+    // editors, checkboxes, selects and the row/header buttons handle their own keys
+    const el = e.target as HTMLElement;
+    if (el.closest("input, select, textarea")) return;
+    if (el !== e.currentTarget && !el.closest("[data-cell]")) return;
+    if (!tableRows.length) return;
+    const valid =
+      cursor &&
+      cursor.anchor.row < tableRows.length &&
+      cursor.focus.row < tableRows.length;
+    const first = { row: 0, col: 0 };
+    const range = valid ? cursor : { anchor: first, focus: first };
+    const mod = e.ctrlKey || e.metaKey;
+    const moved =
+      mod || e.altKey
+        ? null
+        : moveCursor(range, e.key, e.shiftKey, tableRows.length);
+    const { row, col } = range.focus;
+    if (moved) setCursor(moved);
+    else if (e.key === " ") {
+      // Space toggles the rows of the range
+      const b = rangeBounds(range);
+      const ids = tableRows.slice(b.top, b.bottom + 1).map((r) => r._id);
+      const all = ids.every((id) => selectedIds.has(id));
+      setSelectedIds((prev) => {
+        const next = new Set(prev);
+        ids.forEach((id) => (all ? next.delete(id) : next.add(id)));
+        return next;
+      });
+      setCursor(range);
+    } else if (e.key === "Enter" || e.key === "F2") startEdit(row, col);
+    else if (e.key === "Escape") setCursor({ anchor: range.focus, focus: range.focus });
+    else if (mod && e.key.toLowerCase() === "d") fillDown(range);
+    else if (!mod && !e.altKey && e.key.length === 1) startEdit(row, col, e.key);
+    else return;
+    e.preventDefault();
+  }
+
+  // Copy and paste cell ranges as tab-separated text while the grid has focus
+  useEffect(() => {
+    const gridFocused = () => {
+      const el = document.activeElement;
+      return (
+        !!cursor &&
+        !!el &&
+        !!gridRef.current?.contains(el) &&
+        !el.closest("input, select, textarea")
+      );
+    };
+    const onCopy = (e: ClipboardEvent) => {
+      if (!gridFocused() || !cursor) return;
+      const b = rangeBounds(cursor);
+      const values = tableRows
+        .slice(b.top, b.bottom + 1)
+        .map((r) =>
+          gridFields.slice(b.left, b.right + 1).map((f) => String(r[f] ?? ""))
+        );
+      e.clipboardData?.setData("text/plain", toTsv(values));
+      e.preventDefault();
+    };
+    const onPaste = (e: ClipboardEvent) => {
+      if (!gridFocused() || !cursor) return;
+      const text = e.clipboardData?.getData("text/plain") ?? "";
+      if (!text) return;
+      e.preventDefault();
+      applyCellEdits(
+        "Paste",
+        pasteTargets(cursor, parseTsv(text), tableRows.length).map((c) => ({
+          id: tableRows[c.row]._id,
+          field: gridFields[c.col],
+          value: c.value,
+        }))
+      );
+    };
+    window.addEventListener("copy", onCopy);
+    window.addEventListener("paste", onPaste);
+    return () => {
+      window.removeEventListener("copy", onCopy);
+      window.removeEventListener("paste", onPaste);
+    };
+  });
+
+  // Keep the cursor cell on screen
+  useEffect(() => {
+    if (!cursor) return;
+    gridRef.current
+      ?.querySelector(`[data-cell="${cursor.focus.row}:${cursor.focus.col}"]`)
+      ?.scrollIntoView({ block: "nearest", inline: "nearest" });
+  }, [cursor]);
+
+  const transferCount = useMemo(
+    () => sortedRows.filter((r) => r.Direction === "out" && r.TransferId).length,
+    [sortedRows]
+  );
+  // splits whose lines stopped adding up; their parent rows are exported
+  const staleSplits = useMemo(
+    () => sortedRows.filter((r) => r._splitProblem).length,
+    [sortedRows]
+  );
+
+  function showDashboardRows(f: DashboardFilter) {
+    setTableFilter(f);
+    setTab("transform");
+  }
+
+  const recurring = useMemo(() => detectRecurring(sortedRows), [sortedRows]);
+
+  // Rows of other saved sessions by duplicate key, to flag overlapping imports
+  const [priorRows, setPriorRows] = useState<Map<string, PriorRow>>(new Map());
+  const currentHash = sessionMeta?.hash;
+  const otherHashes = sessions
+    .map((x) => x.hash)
+    .filter((h) => h !== currentHash)
+    .join(",");
+  useEffect(() => {
+    if (!currentHash || !otherHashes) {
+      setPriorRows(new Map());
+      return;
+    }
+    let cancelled = false;
+    getAllSessions()
+      .then((all) => {
+        if (cancelled) return;
+        const index = new Map<string, PriorRow>();
+        all
+          .filter((x) => x.hash !== currentHash)
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+          .forEach((x) =>
+            indexSessionRows(
+              x,
+              (src) => sourceAdapter(src, mappingProfiles),
+              dateField,
+              index
+            )
+          );
+        setPriorRows(index);
+      })
+      .catch((e) => console.warn("Earlier sessions unavailable:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [currentHash, otherHashes, mappingProfiles, dateField]);
+
+  const duplicates = useMemo(() => {
+    const rows = filteredRows
+      .map((r) => ({ id: rowId(r), key: duplicateKey(r) }))
+      .filter((r) => !deletedIds.has(r.id));
+    return findDuplicates(rows, priorRows).filter(
+      (d) => !keptDuplicates.has(d.id)
+    );
+  }, [filteredRows, deletedIds, priorRows, keptDuplicates]);
+
+  const duplicateItems = useMemo(() => {
+    const byId = new Map(transformedAll.map((r) => [r._id, r]));
+    return duplicates.flatMap((d) => {
+      const row = byId.get(d.id);
+      if (!row) return [];
+      return [
+        {
+          ...row,
+          ...(edits[d.id] || {}),
+          id: d.id,
+          match: d.prior
+            ? `Imported in "${d.prior.session}"`
+            : byId.get(d.originalId ?? "")?.File === row.File
+            ? "Another row in this file"
+            : `A row in ${byId.get(d.originalId ?? "")?.File}`,
+        },
+      ];
+    });
+  }, [duplicates, transformedAll, edits]);
+
+  function handleResolveDuplicates(ids: string[], action: DuplicateAction) {
+    const picked = duplicates.filter((d) => ids.includes(d.id));
+    if (!picked.length) return;
+    const n = `${picked.length} ${picked.length === 1 ? "row" : "rows"}`;
+    if (action === "keep") {
+      const kept = new Set(keptDuplicates);
+      picked.forEach((d) => kept.add(d.id));
+      applyTableChange("Keep duplicates", n, { keptDuplicates: kept });
+      return;
+    }
+    if (action === "drop") {
+      const next = new Set(deletedIds);
+      picked.forEach((d) => next.add(d.id));
+      applyTableChange("Drop duplicates", n, { deletedIds: next });
+      return;
+    }
+    // merge: in-file duplicates fold into their original; prior matches take
+    // the earlier session's category and notes and stay
+    const byId = new Map(transformedAll.map((r) => [r._id, r]));
+    const nextEdits = { ...edits };
+    const nextDeleted = new Set(deletedIds);
+    const nextKept = new Set(keptDuplicates);
+    const notesOf = (id: string) =>
+      nextEdits[id]?.Notes ?? byId.get(id)?.Notes ?? "";
+    for (const d of picked) {
+      if (d.originalId) {
+        const o = d.originalId;
+        nextEdits[o] = {
+          ...(nextEdits[d.id] || {}),
+          ...(nextEdits[o] || {}),
+          Notes: mergeNotes(notesOf(o), notesOf(d.id)),
+        };
+        nextDeleted.add(d.id);
+      } else if (d.prior) {
+        const e = { ...(nextEdits[d.id] || {}) };
+        if (d.prior.Category)
+          e.Category = resolveCategory(taxonomy, d.prior.Category);
+        e.Notes = mergeNotes(notesOf(d.id), d.prior.Notes);
+        nextEdits[d.id] = e;
+        nextKept.add(d.id);
+      }
+    }
+    applyTableChange("Merge duplicates", n, {
+      edits: nextEdits,
+      deletedIds: nextDeleted,
+      keptDuplicates: nextKept,
+    });
+  }
+
+  // Other rows in this file the learned merchant rule would match
+  const learnMatches = useMemo(() => {
+    if (!learnPrompt) return [];
+    const rule = newRule({ match: "merchant", pattern: learnPrompt.key });
+    return transformedAll.filter(
+      (r) =>
+        r._id !== learnPrompt.id &&
+        !deletedIds.has(r._id) &&
+        ruleMatches(rule, {
+          Name: r.Name,
+          Amount: parseFloat(r.Amount),
+          Type: r.Type,
+          Currency: r.Currency,
+        })
+    );
+  }, [learnPrompt, transformedAll, deletedIds]);
+
+  function handleLearnRule(applyToMatches: boolean) {
+    if (!learnPrompt) return;
+    const { key, category } = learnPrompt;
+    const next = { ...edits };
+    for (const r of learnMatches) {
+      const existing = next[r._id] || {};
+      if (applyToMatches) {
+        next[r._id] = { ...existing, Category: category };
+      } else if (existing.Category === undefined) {
+        // leave this file as it is; the rule takes over from the next upload
+        next[r._id] = { ...existing, Category: r.Category };
+      }
+    }
+    if (learnMatches.length) {
+      applyTableChange(
+        applyToMatches ? "Apply learned rule" : "Learn rule",
+        applyToMatches
+          ? `${learnMatches.length} matching rows → ${category}`
+          : `${learnMatches.length} matching rows keep their category`,
+        { edits: next }
+      );
+    }
+    // learned rules go first and replace an older rule for the same merchant
+    updateRules([
+      newRule({ match: "merchant", pattern: key, category, learned: true }),
+      ...rules.filter((r) => !(r.match === "merchant" && r.pattern === key)),
+    ]);
+    setLearnPrompt(null);
+  }
+
+  // Tagging a recurring series edits all its rows and saves a merchant rule
+  // (limited to the series' type and currency) for future uploads
+  function handleTagSeries(
+    s: RecurringSeries,
+    category: string,
+    notes: string
+  ) {
+    const next = { ...edits };
+    for (const id of s.ids)
+      next[id] = { ...(next[id] || {}), Category: category, Notes: notes };
+    applyTableChange(
+      "Tag recurring payment",
+      `${s.name}: ${s.count} rows → ${category}`,
+      { edits: next }
+    );
+    const previous = seriesRule(rules, s);
+    updateRules([
+      newRule({
+        match: "merchant",
+        pattern: s.merchant,
+        type: s.type === "Income" ? "Income" : "Expense",
+        currency: s.currency,
+        category,
+        notes,
+        learned: true,
+      }),
+      ...rules.filter((r) => r !== previous),
+    ]);
+  }
+
   async function handleClassify() {
     try {
-      if (!apiKey) throw new Error("Please add your LLM API key in Settings.");
-      setStatus("Classifying with LLM...");
-      const map = await classifyWithOpenAI(uniqueNames, apiKey, model);
-      setCategoryMap(map);
-      setStatus("Classification complete.");
+      if (!apiKey && provider.auth !== "none")
+        throw new Error("Please add your LLM API key in Settings.");
+      if (!llmNames.length) {
+        setStatus("All transactions are covered by category rules.");
+        return;
+      }
+      setStatus("");
+      const controller = new AbortController();
+      llmAbort.current = controller;
+      setLlmRunning(true);
+      const result = await classifyNames(llmNames, categories, heuristicCategory, {
+        provider,
+        apiKey,
+        model,
+        signal: controller.signal,
+        onProgress: setLlmChunks,
+      });
+      const n = Object.keys(result.mapping).length;
+      // partial runs keep earlier classifications of the names they missed
+      if (n)
+        applyTableChange(
+          "LLM classification",
+          `${n} merchant names classified` +
+            (result.fallback.length
+              ? ` (${result.fallback.length} by heuristics)`
+              : ""),
+          { categoryMap: { ...categoryMap, ...result.mapping } }
+        );
+      const failed = result.chunks.filter((c) => c.state === "failed");
+      if (failed.length)
+        setErrors((x) => [
+          ...x,
+          `LLM: ${failed.length} of ${result.chunks.length} chunks failed ` +
+            `(${failed[0].error}); heuristics were used for ` +
+            `${result.fallback.length} names.`,
+        ]);
+      setStatus(
+        result.cancelled
+          ? `Classification cancelled; kept ${n} results.`
+          : "Classification complete."
+      );
     } catch (e: any) {
       setStatus("");
       setErrors((x) => [...x, e.message || String(e)]);
+    } finally {
+      llmAbort.current = null;
+      setLlmRunning(false);
     }
   }
 
   function handleDownload() {
-    const cols = [
-      "Date",
-      "Type",
-      "Amount",
-      "Currency",
-      "Category",
-      "Name",
-      "Account",
-      "Notes",
-      "Source",
-    ];
-    const body = sortedRows
-      .map((row) => cols.map((c) => csvEscape((row as any)[c])).join(","))
-      .join("\n");
-
-    const csv = body ? body + "\n" : "";
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `revolut_transformed_${new Date()
+    // subcategories are exported with their parent, e.g. "Transport:Fuel"
+    const rows: ExportRow[] = (
+      exportScope === "view" ? viewRows : sortedRows
+    ).map((row) => ({
+      Date: row.Date,
+      Type: row.Type,
+      Amount: row.Amount,
+      Currency: row.Currency,
+      Category: categoryPath(taxonomy, row.Category, ":"),
+      Name: row.Name,
+      Account: row.Account,
+      Notes: row.Notes,
+      Source: row.Source,
+      File: row.File,
+      AmountBase: row.AmountBase,
+      FxRate: row.FxRate,
+      Direction: row.Direction,
+      TransferId: row.TransferId,
+      Fee: row.Fee,
+      Balance: row.Balance,
+      FeeId: row.FeeId,
+      SplitId: row.SplitId,
+    }));
+    const base = `${(files.length > 1
+      ? "combined"
+      : files.length
+      ? adapter.id
+      : "manual"
+    )
+      .toLowerCase()
+      .replace(/\s+/g, "_")}_transformed_${new Date()
       .toISOString()
-      .slice(0, 10)}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
-    URL.revokeObjectURL(url);
+      .slice(0, 10)}`;
+
+    const format = exportFormats.find((f) => f.id === exportFormat);
+    if (!format) {
+      const profile =
+        exportProfiles.find((p) => p.name === exportProfile) ||
+        defaultExportProfile;
+      downloadFile(
+        `${base}.csv`,
+        encodeCsv(toCsv(rows, profile), profile),
+        csvMimeType(profile)
+      );
+      return;
+    }
+    const content =
+      format.id === "xlsx"
+        ? toXlsx(rows)
+        : format.id === "json"
+        ? toJson(rows)
+        : format.id === "ofx"
+        ? toOfx(rows, new Date())
+        : format.id === "qif"
+        ? toQif(rows)
+        : toLedger(rows);
+    downloadFile(`${base}.${format.extension}`, content, format.mime);
   }
 
   return (
@@ -718,7 +2840,7 @@ export default function App() {
                 {websiteName || siteNameDefault}
               </h1>
               <p className="text-xs text-gray-500">
-                Upload your Revolut CSV → classify → download a clean CSV
+                Upload your bank CSV → classify → download a clean CSV
               </p>
             </div>
           </div>
@@ -732,6 +2854,15 @@ export default function App() {
             >
               Transform
             </button>
+            <button
+              onClick={() => setTab("dashboard")}
+              className={classNames(
+                "px-3 py-1.5 rounded-lg text-sm",
+                tab === "dashboard" ? "bg-white shadow" : "text-gray-600"
+              )}
+            >
+              Dashboard
+            </button>
             <button
               onClick={() => setTab("settings")}
               className={classNames(
@@ -765,20 +2896,47 @@ export default function App() {
                   <select
                     className="border rounded-lg px-3 py-2"
                     value={source}
-                    onChange={(e) => setSource(e.target.value)}
+                    onChange={(e) => {
+                      setSource(e.target.value);
+                      // a single loaded file is re-read with the chosen source
+                      if (files.length === 1)
+                        updateFile(0, { source: e.target.value });
+                    }}
                   >
-                    <option>Revolut</option>
+                    {bankAdapters.map((a) => (
+                      <option key={a.id} value={a.id}>
+                        {a.id}
+                      </option>
+                    ))}
+                    {mappingProfiles.length > 0 && (
+                      <optgroup label="Saved column mappings">
+                        {mappingProfiles.map((p) => (
+                          <option key={p.name} value={p.name}>
+                            {p.name}
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
                   </select>
+                  <span className="text-xs text-gray-500">
+                    Detected automatically from the CSV headers on upload.
+                  </span>
                 </label>
                 <label className="grid gap-1 text-sm">
                   <span className="text-gray-600">Date field</span>
                   <select
                     className="border rounded-lg px-3 py-2"
-                    value={dateField}
-                    onChange={(e) => setDateField(e.target.value as any)}
+                    value={
+                      adapter.dateFields.includes(dateField)
+                        ? dateField
+                        : adapter.dateFields[0]
+                    }
+                    onChange={(e) => setDateField(e.target.value)}
+                    disabled={adapter.dateFields.length < 2}
                   >
-                    <option>Completed Date</option>
-                    <option>Started Date</option>
+                    {adapter.dateFields.map((f) => (
+                      <option key={f}>{f}</option>
+                    ))}
                   </select>
                 </label>
                 <label className="flex items-center gap-3 text-sm pt-6">
@@ -787,7 +2945,7 @@ export default function App() {
                     checked={onlyCompleted}
                     onChange={(e) => setOnlyCompleted(e.target.checked)}
                   />
-                  Include only rows with{" "}
+                  Include only completed (booked) rows, e.g.{" "}
                   <code className="px-1 rounded bg-gray-100">
                     State = COMPLETED
                   </code>
@@ -795,37 +2953,125 @@ export default function App() {
               </div>
             </div>
 
+            {/* remounted per provider so its models field starts from that list */}
+            <LlmSettingsPanel
+              key={providerId}
+              providers={providers}
+              providerId={providerId}
+              model={model}
+              apiKey={apiKey}
+              onSelect={(id, m) => {
+                setProviderId(id);
+                setModel(m);
+              }}
+              onApiKey={(key) => setApiKeys({ ...apiKeys, [provider.id]: key })}
+              onChangeProviders={updateProviders}
+            />
+
             <div className="bg-white rounded-2xl shadow p-5">
-              <h2 className="text-base font-semibold mb-3">LLM</h2>
-              <div className="grid md:grid-cols-2 gap-4">
-                <label className="grid gap-1 text-sm">
-                  <span className="text-gray-600">OpenAI API key</span>
-                  <input
-                    type="password"
-                    className="border rounded-lg px-3 py-2"
-                    value={apiKey}
-                    onChange={(e) => setApiKey(e.target.value)}
-                    placeholder="sk-..."
-                  />
-                  <span className="text-xs text-gray-500">
-                    Stored locally in your browser. For prototypes only—avoid
-                    exposing secrets in client apps.
-                  </span>
-                </label>
-                <label className="grid gap-1 text-sm">
-                  <span className="text-gray-600">Model</span>
-                  <select
-                    className="border rounded-lg px-3 py-2"
-                    value={model}
-                    onChange={(e) => setModel(e.target.value)}
-                  >
-                    <option value="gpt-4o-mini">gpt-4o-mini</option>
-                    <option value="gpt-4o">gpt-4o</option>
-                    <option value="gpt-4.1-mini">gpt-4.1-mini</option>
-                  </select>
-                </label>
-              </div>
+              <h2 className="text-base font-semibold mb-3">Column mappings</h2>
+              {mappingProfiles.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  No saved mappings. Uploading a CSV in an unknown layout opens
+                  the column-mapping wizard.
+                </p>
+              ) : (
+                <ul className="text-sm divide-y">
+                  {mappingProfiles.map((p) => {
+                    // loaded files read with this mapping would fall back to Revolut
+                    const inUse = files.filter((f) => f.source === p.name);
+                    return (
+                      <li
+                        key={p.name}
+                        className="flex items-center justify-between gap-3 py-2"
+                      >
+                        <div>
+                          <div className="font-medium">{p.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {p.headers.join(", ")}
+                          </div>
+                          {inUse.length > 0 && (
+                            <div className="text-xs text-amber-700">
+                              Used by {inUse.map((f) => f.name).join(", ")}
+                            </div>
+                          )}
+                        </div>
+                        <button
+                          onClick={() => {
+                            updateMappingProfiles(
+                              mappingProfiles.filter((x) => x.name !== p.name)
+                            );
+                            if (source === p.name) setSource("Revolut");
+                          }}
+                          disabled={inUse.length > 0}
+                          title={
+                            inUse.length
+                              ? "Change the source of the files using it first"
+                              : undefined
+                          }
+                          className="text-red-500 hover:text-red-700 text-xs disabled:opacity-30"
+                        >
+                          Delete
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
             </div>
+
+            <FxPanel
+              table={fxTable}
+              base={baseCurrency}
+              currencies={Array.from(
+                new Set(transformedAll.map((r) => r.Currency))
+              ).sort()}
+              storageError={fxStorageError}
+              parseCsv={(text) => {
+                const parsed = parseCsvText(text);
+                return { headers: parsed.fields, rows: parsed.data };
+              }}
+              onBaseChange={setBaseCurrency}
+              onChange={updateFxTable}
+            />
+
+            <TaxonomyPanel taxonomy={taxonomy} onChange={updateTaxonomy} />
+
+            <ExportProfilesPanel
+              profiles={exportProfiles}
+              onChange={updateExportProfiles}
+            />
+
+            <RulesPanel
+              rules={rules}
+              categories={categories}
+              onChange={updateRules}
+            />
+          </section>
+        ) : tab === "dashboard" ? (
+          <section className="grid gap-6">
+            <Dashboard
+              rows={analyticsRows}
+              taxonomy={taxonomy}
+              budgets={budgets}
+              onBudgetsChange={updateBudgets}
+              onFilter={showDashboardRows}
+            />
+            {sortedRows.length > 0 && (
+              <RecurringPanel
+                series={recurring}
+                taxonomy={taxonomy}
+                rules={rules}
+                onTag={handleTagSeries}
+                onShowRows={(s) =>
+                  showDashboardRows({
+                    currency: s.currency,
+                    merchant: s.merchant,
+                    type: s.type,
+                  })
+                }
+              />
+            )}
           </section>
         ) : (
           <section className="grid gap-6">
@@ -833,13 +3079,13 @@ export default function App() {
               <div className="flex flex-col md:flex-row md:items-center gap-3 justify-between">
                 <div>
                   <h2 className="text-base font-semibold">
-                    Upload Revolut CSV
+                    Upload bank CSV
                   </h2>
                   <p className="text-sm text-gray-600">
-                    Expected headers:{" "}
+                    Supported: {bankAdapters.map((a) => a.id).join(", ")}.
+                    Expected {adapter.id} headers:{" "}
                     <code className="bg-gray-100 rounded px-1">
-                      Type, Product, Started Date, Completed Date, Description,
-                      Amount, Fee, Currency, State, Balance
+                      {adapter.headers.join(", ")}
                     </code>
                   </p>
                 </div>
@@ -848,21 +3094,58 @@ export default function App() {
                     ref={fileRef}
                     type="file"
                     accept=".csv,text/csv"
+                    multiple
                     className="border rounded-lg px-3 py-2"
                     onChange={(e) =>
-                      e.target.files && onFileSelected(e.target.files[0])
+                      e.target.files &&
+                      onFilesSelected(Array.from(e.target.files))
+                    }
+                  />
+                  {/* webkitdirectory is not in React's input props */}
+                  <input
+                    ref={(el) => {
+                      folderRef.current = el;
+                      el?.setAttribute("webkitdirectory", "");
+                    }}
+                    type="file"
+                    className="hidden"
+                    onChange={(e) =>
+                      e.target.files &&
+                      onFilesSelected(
+                        Array.from(e.target.files).filter((f) =>
+                          /\.csv$/i.test(f.name)
+                        )
+                      )
                     }
                   />
+                  <button
+                    onClick={() => folderRef.current?.click()}
+                    className="px-3 py-2 rounded-lg border bg-white hover:bg-gray-50 whitespace-nowrap"
+                    title="Load every CSV in a folder"
+                  >
+                    Folder…
+                  </button>
                   <button
                     onClick={() => {
-                      setRawRows([]);
+                      setFiles([]);
                       setErrors([]);
                       setCategoryMap({});
                       setEdits({});
                       setDraftEdits({});
                       setDeletedIds(new Set());
+                      setKeptDuplicates(new Set());
+                      setSplits({});
+                      setSplitting(null);
+                      setManualRows([]);
+                      setManualForm(null);
                       setSelectedIds(new Set());
+                      setHistory(emptyHistory());
+                      setTableFilter(null);
+                      setPendingMapping(null);
+                      setLearnPrompt(null);
+                      setSessionMeta(null);
                       if (fileRef.current) fileRef.current.value = "";
+                      if (folderRef.current) folderRef.current.value = "";
                     }}
                     className="px-3 py-2 rounded-lg border bg-white hover:bg-gray-50"
                   >
@@ -876,6 +3159,14 @@ export default function App() {
                   {status}
                 </div>
               )}
+              {llmChunks && llmChunks.length > 0 && (
+                <LlmProgress
+                  chunks={llmChunks}
+                  running={llmRunning}
+                  onCancel={() => llmAbort.current?.abort()}
+                  onClose={() => setLlmChunks(null)}
+                />
+              )}
               {errors.length > 0 && (
                 <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">
                   {errors.map((e, i) => (
@@ -883,8 +3174,104 @@ export default function App() {
                   ))}
                 </div>
               )}
+              {learnPrompt && (
+                <div className="text-sm text-amber-900 bg-amber-50 border border-amber-200 rounded-lg p-3 flex flex-wrap items-center gap-2">
+                  <span>
+                    Always categorize merchant <b>{learnPrompt.key}</b> as{" "}
+                    <b>{learnPrompt.category}</b>?
+                  </span>
+                  <div className="flex-1" />
+                  <button
+                    onClick={() => handleLearnRule(false)}
+                    className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white"
+                  >
+                    Create rule
+                  </button>
+                  {learnMatches.length > 0 && (
+                    <button
+                      onClick={() => handleLearnRule(true)}
+                      className="px-2 py-1 rounded-lg text-xs bg-indigo-600 text-white hover:bg-indigo-700"
+                    >
+                      Create rule &amp; apply to {learnMatches.length} other{" "}
+                      {learnMatches.length === 1 ? "row" : "rows"}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setLearnPrompt(null)}
+                    className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              )}
 
-              {filteredRows.length > 0 && (
+              {splitting &&
+                (() => {
+                  const parent = transformedAll.find((r) => r._id === splitting);
+                  if (!parent) return null;
+                  return (
+                    <SplitEditor
+                      key={splitting}
+                      row={{ ...parent, ...edits[splitting] }}
+                      lines={splits[splitting]}
+                      taxonomy={taxonomy}
+                      onSave={(lines) => handleSaveSplit(splitting, lines)}
+                      onRemove={() => handleRemoveSplit(splitting)}
+                      onClose={() => setSplitting(null)}
+                    />
+                  );
+                })()}
+
+              {/* manual entry: one-line quick add, or the full form */}
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <input
+                  className="border rounded-lg px-2 py-1 w-80"
+                  value={quickAdd}
+                  placeholder="Quick add: 12.50 Coffee #Out @Cash"
+                  title="[date] amount [currency] name [#category] [@account]; +amount is income"
+                  onChange={(e) => setQuickAdd(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") handleQuickAdd();
+                  }}
+                />
+                <button
+                  onClick={handleQuickAdd}
+                  disabled={!quickAdd.trim()}
+                  className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white disabled:opacity-40"
+                >
+                  Add
+                </button>
+                <button
+                  onClick={() => setManualForm("new")}
+                  className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50"
+                >
+                  + Add transaction
+                </button>
+              </div>
+              {manualForm &&
+                (() => {
+                  const id = manualForm === "new" ? null : manualForm;
+                  const saved = manualRows.find((m) => m.id === id);
+                  if (id && !saved) return null;
+                  return (
+                    <ManualEntryForm
+                      key={manualForm}
+                      row={saved ? { ...saved, ...edits[saved.id] } : manualDefaults()}
+                      editing={!!saved}
+                      taxonomy={taxonomy}
+                      accounts={Array.from(
+                        new Set(
+                          ["Cash", ...sortedRows.map((r) => r.Account)].filter(Boolean)
+                        )
+                      ).sort()}
+                      currencies={rowCurrencies}
+                      onSave={(row) => handleSaveManual(id, row)}
+                      onCancel={() => setManualForm(null)}
+                    />
+                  );
+                })()}
+
+              {transformedAll.length > 0 && (
                 <div className="flex flex-col gap-3 mt-2">
                   <div className="flex flex-wrap items-center gap-2">
                     <label className="text-sm text-gray-700 flex items-center gap-2">
@@ -900,35 +3287,123 @@ export default function App() {
                       </select>
                     </label>
 
+                    {hasFees && (
+                      <label
+                        className="text-sm text-gray-700 flex items-center gap-2"
+                        title="Keep fees in the Fee column, export them as separate rows in the Fees category, or include them in Amount"
+                      >
+                        Fees
+                        <select
+                          className="border rounded-lg px-2 py-1"
+                          value={feeMode}
+                          onChange={(e) => setFeeMode(e.target.value as FeeMode)}
+                        >
+                          {feeModes.map((m) => (
+                            <option key={m.id} value={m.id}>
+                              {m.label}
+                            </option>
+                          ))}
+                        </select>
+                        {hiddenFeeChanges > 0 && (
+                          <span
+                            className="text-xs text-amber-700"
+                            title="Edited or deleted fee rows come back with their changes in Separate Fees row mode"
+                          >
+                            {hiddenFeeChanges} fee row change
+                            {hiddenFeeChanges === 1 ? "" : "s"} hidden
+                          </span>
+                        )}
+                      </label>
+                    )}
+
+                    {transfers.size > 0 && (
+                      <label
+                        className="text-sm text-gray-700 flex items-center gap-2"
+                        title="Exchanges and pocket transfers: linked rows, one row per pair, or left out of the table, dashboard and export"
+                      >
+                        Transfers
+                        <select
+                          className="border rounded-lg px-2 py-1"
+                          value={transferMode}
+                          onChange={(e) =>
+                            setTransferMode(e.target.value as TransferMode)
+                          }
+                        >
+                          {transferModes.map((m) => (
+                            <option key={m.id} value={m.id}>
+                              {m.label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
+
                     <div className="text-sm text-gray-600">
-                      Rows loaded: <b>{rawRows.length}</b> • After filter:{" "}
+                      Rows loaded:{" "}
+                      <b>{files.reduce((n, f) => n + f.rows.length, 0)}</b>
+                      {files.length > 1 && ` from ${files.length} files`} • After filter:{" "}
                       <b>{filteredRows.length}</b> • Export rows:{" "}
                       <b>{sortedRows.length}</b> • Unique names:{" "}
                       <b>{uniqueNames.length}</b>
+                      {manualRows.length > 0 && (
+                        <>
+                          {" "}
+                          • Manual: <b>{manualRows.length}</b>
+                        </>
+                      )}
+                      {duplicates.length > 0 && (
+                        <>
+                          {" "}
+                          • Possible duplicates:{" "}
+                          <b className="text-amber-700">{duplicates.length}</b>
+                        </>
+                      )}
+                      {transferCount > 0 && (
+                        <>
+                          {" "}
+                          • Transfers: <b>{transferCount}</b>
+                        </>
+                      )}
+                      {balanceIssues.size > 0 && (
+                        <>
+                          {" "}
+                          • Balance mismatches:{" "}
+                          <b className="text-red-700">{balanceIssues.size}</b>
+                        </>
+                      )}
+                      {staleSplits > 0 && (
+                        <>
+                          {" "}
+                          • Splits not applied:{" "}
+                          <b className="text-amber-700">{staleSplits}</b>
+                        </>
+                      )}
                     </div>
 
-                    {/* bulk category for selected */}
-                    <div className="flex items-center gap-2 text-sm">
-                      <span className="text-gray-600">
-                        Selected: <b>{selectedIds.size}</b>
-                      </span>
-                      <select
-                        className="border rounded-lg px-2 py-1"
-                        value={bulkCategory}
-                        onChange={(e) => setBulkCategory(e.target.value)}
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={handleUndo}
+                        disabled={!history.past.length}
+                        className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50 disabled:opacity-40"
+                        title={
+                          history.past.length
+                            ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)`
+                            : "Nothing to undo"
+                        }
                       >
-                        {categorySet.map((c) => (
-                          <option key={c} value={c}>
-                            {c}
-                          </option>
-                        ))}
-                      </select>
+                        ↶ Undo
+                      </button>
                       <button
-                        onClick={handleBulkApplyCategory}
-                        disabled={!selectedIds.size}
-                        className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white disabled:opacity-40"
+                        onClick={handleRedo}
+                        disabled={!history.future.length}
+                        className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50 disabled:opacity-40"
+                        title={
+                          history.future.length
+                            ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)`
+                            : "Nothing to redo"
+                        }
                       >
-                        Apply to selected
+                        ↷ Redo
                       </button>
                     </div>
 
@@ -937,22 +3412,157 @@ export default function App() {
                     <button
                       onClick={handleClassify}
                       className="px-3 py-2 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
-                      disabled={!uniqueNames.length || !apiKey}
+                      disabled={
+                        !llmNames.length ||
+                        (!apiKey && provider.auth !== "none") ||
+                        llmRunning
+                      }
                       title={
-                        !apiKey ? "Add your API key in Settings" : "Classify with LLM"
+                        !apiKey && provider.auth !== "none"
+                          ? "Add your API key in Settings"
+                          : `Classify with ${provider.label} (${model})`
                       }
                     >
                       Classify with LLM
                     </button>
+                    <select
+                      className="border rounded-lg px-2 py-2 text-sm"
+                      value={
+                        exportFormat === "csv"
+                          ? `csv:${exportProfile}`
+                          : exportFormat
+                      }
+                      onChange={(e) => {
+                        const v = e.target.value;
+                        if (v.startsWith("csv:")) {
+                          setExportFormat("csv");
+                          setExportProfile(v.slice(4));
+                        } else setExportFormat(v as ExportFormat);
+                      }}
+                      title="Export format (CSV profiles are edited in Settings)"
+                    >
+                      <optgroup label="CSV">
+                        {exportProfiles.map((p) => (
+                          <option key={p.name} value={`csv:${p.name}`}>
+                            {p.name}
+                          </option>
+                        ))}
+                      </optgroup>
+                      <optgroup label="Other formats">
+                        {exportFormats.map((f) => (
+                          <option key={f.id} value={f.id}>
+                            {f.label}
+                          </option>
+                        ))}
+                      </optgroup>
+                    </select>
+                    <select
+                      className="border rounded-lg px-2 py-2 text-sm"
+                      value={exportScope}
+                      onChange={(e) =>
+                        setExportScope(e.target.value as "all" | "view")
+                      }
+                      title="Rows to download"
+                    >
+                      <option value="all">All rows ({sortedRows.length})</option>
+                      <option value="view">
+                        Filtered view ({viewRows.length})
+                      </option>
+                    </select>
                     <button
                       onClick={handleDownload}
                       className="px-3 py-2 rounded-lg bg-emerald-600 text-white hover:bg-emerald-700"
                     >
-                      Download CSV
+                      Download{" "}
+                      {exportFormats.find((f) => f.id === exportFormat)
+                        ?.short ?? "CSV"}
                     </button>
                   </div>
 
-                  <div className="overflow-auto rounded-xl border">
+                  <TableFilters
+                    view={view}
+                    taxonomy={taxonomy}
+                    currencies={rowCurrencies}
+                    savedViews={savedViews}
+                    shown={tableRows.length}
+                    total={sortedRows.length}
+                    onChange={setView}
+                    onSaveViews={updateSavedViews}
+                  />
+
+                  <BulkActionBar
+                    selected={selectedRows}
+                    hidden={
+                      selectedRows.length -
+                      tableRows.filter((r) => selectedIds.has(r._id)).length
+                    }
+                    matching={tableRows.length}
+                    taxonomy={taxonomy}
+                    accounts={Array.from(
+                      new Set(sortedRows.map((r) => r.Account).filter(Boolean))
+                    ).sort()}
+                    onSelectMatching={() =>
+                      setSelectedIds(new Set(tableRows.map((r) => r._id)))
+                    }
+                    onInvert={() =>
+                      setSelectedIds(
+                        new Set(
+                          tableRows
+                            .filter((r) => !selectedIds.has(r._id))
+                            .map((r) => r._id)
+                        )
+                      )
+                    }
+                    onClear={() => setSelectedIds(new Set())}
+                    onApply={handleBulkAction}
+                  />
+
+                  {tableFilter && (
+                    <div className="flex flex-wrap items-center gap-2 text-sm bg-indigo-50 border border-indigo-200 rounded-lg px-3 py-2">
+                      <span className="text-gray-700">
+                        Showing <b>{tableRows.length}</b> of {sortedRows.length}{" "}
+                        rows from the dashboard:
+                      </span>
+                      {[
+                        tableFilter.month,
+                        tableFilter.type,
+                        tableFilter.category !== undefined &&
+                          (categoryPath(taxonomy, tableFilter.category) ||
+                            "Uncategorized"),
+                        tableFilter.merchant,
+                        tableFilter.currency,
+                      ]
+                        .filter(Boolean)
+                        .map((label) => (
+                          <span
+                            key={String(label)}
+                            className="px-2 py-0.5 rounded-full text-xs bg-white border"
+                          >
+                            {label}
+                          </span>
+                        ))}
+                      <button
+                        onClick={() => setTableFilter(null)}
+                        className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50"
+                      >
+                        ✕ Show all rows
+                      </button>
+                      <button
+                        onClick={() => setTab("dashboard")}
+                        className="text-xs text-indigo-700 hover:underline"
+                      >
+                        Back to dashboard
+                      </button>
+                    </div>
+                  )}
+
+                  {/* focusable grid: arrows/Tab move, typing edits, Ctrl+C/V/D, Space selects */}
+                  <div
+                    ref={gridRef}
+                    tabIndex={0}
+                    onKeyDown={handleGridKeyDown}
+                    className="overflow-auto rounded-xl border focus:outline-none focus:ring-2 focus:ring-indigo-200"
+                  >
                     <table className="min-w-full text-sm">
                       <thead className="bg-gray-100 sticky top-0">
                         <tr>
@@ -962,18 +3572,18 @@ export default function App() {
                               type="checkbox"
                               className="h-4 w-4"
                               checked={
-                                sortedRows.length > 0 &&
-                                sortedRows.every((row: any) => selectedIds.has(row._id))
+                                tableRows.length > 0 &&
+                                tableRows.every((row: any) => selectedIds.has(row._id))
                               }
                               onChange={() => {
                                 const allSelected =
-                                  sortedRows.length > 0 &&
-                                  sortedRows.every((row: any) => selectedIds.has(row._id));
+                                  tableRows.length > 0 &&
+                                  tableRows.every((row: any) => selectedIds.has(row._id));
                                 if (allSelected) {
                                   setSelectedIds(new Set());
                                 } else {
                                   const next = new Set<string>();
-                                  sortedRows.forEach((row: any) => next.add(row._id));
+                                  tableRows.forEach((row: any) => next.add(row._id));
                                   setSelectedIds(next);
                                 }
                               }}
@@ -987,23 +3597,41 @@ export default function App() {
                             "Type",
                             "Amount",
                             "Currency",
+                            ...(baseCurrency ? ["AmountBase", "FxRate"] : []),
+                            ...(hasFees ? ["Fee"] : []),
+                            ...(hasBalance ? ["Balance"] : []),
                             "Category",
                             "Name",
                             "Account",
                             "Notes",
                             "Source",
+                            "File",
                           ].map((h) => (
                             <th
                               key={h}
                               className="text-left font-semibold px-3 py-2 whitespace-nowrap"
+                              aria-sort={
+                                view.sortBy === h
+                                  ? view.sortDir === "asc"
+                                    ? "ascending"
+                                    : "descending"
+                                  : undefined
+                              }
                             >
-                              {h}
+                              <button
+                                onClick={() => sortBy(h)}
+                                className="font-semibold hover:underline"
+                                title={`Sort by ${h}`}
+                              >
+                                {h === "AmountBase" ? `AmountBase (${baseCurrency})` : h}
+                                {view.sortBy === h && (view.sortDir === "asc" ? " ▲" : " ▼")}
+                              </button>
                             </th>
                           ))}
                         </tr>
                       </thead>
                       <tbody>
-                        {sortedRows.map((row: any, i: number) => {
+                        {tableRows.map((row: any, i: number) => {
                           const isSelected = selectedIds.has(row._id);
                           const baseColor =
                             row.Type === "Expense"
@@ -1032,8 +3660,34 @@ export default function App() {
                                 />
                               </td>
 
-                              {/* delete button */}
+                              {/* split and delete buttons */}
                               <td className="px-3 py-2 whitespace-nowrap">
+                                <button
+                                  onClick={() => setSplitting(splitParentId(row._id))}
+                                  className={`${
+                                    row._splitProblem
+                                      ? "text-amber-600 hover:text-amber-800"
+                                      : "text-indigo-600 hover:text-indigo-800"
+                                  } text-xs mr-2`}
+                                  title={
+                                    row._splitProblem
+                                      ? `Split not applied: ${row._splitProblem} Edit it to fix.`
+                                      : row.SplitId
+                                      ? "Edit split"
+                                      : "Split across categories"
+                                  }
+                                >
+                                  {row._splitProblem ? "⚠" : "⑂"}
+                                </button>
+                                {isManualId(row._id) && !row.SplitId && (
+                                  <button
+                                    onClick={() => setManualForm(row._id)}
+                                    className="text-indigo-600 hover:text-indigo-800 text-xs mr-2"
+                                    title="Edit manual transaction"
+                                  >
+                                    ✎
+                                  </button>
+                                )}
                                 <button
                                   onClick={() => handleDeleteRow(row._id)}
                                   className="text-red-500 hover:text-red-700 text-xs"
@@ -1044,7 +3698,7 @@ export default function App() {
                               </td>
 
                               {/* Date */}
-                              <td className="px-3 py-2 whitespace-nowrap">
+                              <td className={cellClass(i, 0)} data-cell={`${i}:0`}>
                                 {editing?.id === row._id && editing?.field === "Date" ? (
                                   <input
                                     type="date"
@@ -1063,38 +3717,42 @@ export default function App() {
                                         },
                                       }))
                                     }
-                                    onKeyDown={(e) => {
-                                      if (e.key === "Enter") commitEditsFor(row._id);
-                                      if (e.key === "Escape") {
-                                        setDraftEdits((d) => ({
-                                          ...d,
-                                          [row._id]: {
-                                            ...(edits[row._id] || {}),
-                                          },
-                                        }));
-                                        setEditing(null);
-                                      }
-                                    }}
+                                    onKeyDown={editorKeyDown(row._id)}
                                     onBlur={() => commitEditsFor(row._id)}
                                     autoFocus
                                   />
                                 ) : (
                                   <button
                                     className="text-left w-full"
-                                    onClick={() => setEditing({ id: row._id, field: "Date" })}
+                                    onClick={cellClick(i, 0)}
                                   >
                                     {row.Date || <span className="text-gray-400">—</span>}
                                   </button>
                                 )}
                               </td>
 
-                              {/* Type */}
+                              {/* Type; transfers name the opposite leg */}
                               <td className="px-3 py-2 whitespace-nowrap">
                                 {row.Type}
+                                {row.TransferId &&
+                                  (() => {
+                                    const other = rowsById.get(row._linked);
+                                    return (
+                                      <span
+                                        className="block text-xs text-gray-500"
+                                        title={`${row.TransferId}: linked to ${other?.Account ?? "a hidden row"}`}
+                                      >
+                                        {row.Direction === "out" ? "→" : "←"}{" "}
+                                        {other
+                                          ? `${other.Direction === "out" ? "-" : "+"}${other.Amount} ${other.Currency}`
+                                          : row.TransferId}
+                                      </span>
+                                    );
+                                  })()}
                               </td>
 
                               {/* Amount */}
-                              <td className="px-3 py-2 whitespace-nowrap">
+                              <td className={cellClass(i, 1)} data-cell={`${i}:1`}>
                                 {editing?.id === row._id && editing?.field === "Amount" ? (
                                   <input
                                     type="text"
@@ -1113,27 +3771,21 @@ export default function App() {
                                         },
                                       }))
                                     }
-                                    onKeyDown={(e) => {
-                                      if (e.key === "Enter") commitEditsFor(row._id);
-                                      if (e.key === "Escape") {
-                                        setDraftEdits((d) => ({
-                                          ...d,
-                                          [row._id]: {
-                                            ...(edits[row._id] || {}),
-                                          },
-                                        }));
-                                        setEditing(null);
-                                      }
-                                    }}
+                                    onKeyDown={editorKeyDown(row._id)}
                                     onBlur={() => commitEditsFor(row._id)}
                                     autoFocus
                                   />
                                 ) : (
                                   <button
                                     className="text-left w-full"
-                                    onClick={() => setEditing({ id: row._id, field: "Amount" })}
+                                    onClick={cellClick(i, 1)}
                                   >
                                     {row.Amount}
+                                    {row.SplitId && (
+                                      <span className="block text-xs text-indigo-600">
+                                        {row.SplitId}
+                                      </span>
+                                    )}
                                   </button>
                                 )}
                               </td>
@@ -1143,21 +3795,63 @@ export default function App() {
                                 {row.Currency}
                               </td>
 
+                              {/* Base currency conversion; blank without a rate */}
+                              {baseCurrency && (
+                                <>
+                                  <td className="px-3 py-2 whitespace-nowrap">
+                                    {row.AmountBase || (
+                                      <span className="text-gray-400" title="No rate for this currency">
+                                        —
+                                      </span>
+                                    )}
+                                  </td>
+                                  <td className="px-3 py-2 whitespace-nowrap text-gray-500">
+                                    {row.FxRate}
+                                  </td>
+                                </>
+                              )}
+
+                              {hasFees && (
+                                <td className="px-3 py-2 whitespace-nowrap">
+                                  {row.Fee}
+                                </td>
+                              )}
+
+                              {/* Bank balance; red when it does not follow from the previous row */}
+                              {hasBalance &&
+                                (() => {
+                                  const issue = balanceIssues.get(row._id);
+                                  return (
+                                    <td
+                                      className={`px-3 py-2 whitespace-nowrap ${
+                                        issue ? "text-red-700 font-semibold" : ""
+                                      }`}
+                                      title={
+                                        issue
+                                          ? `Expected ${issue.expected.toFixed(2)} from the previous balance and this amount`
+                                          : ""
+                                      }
+                                    >
+                                      {row.Balance}
+                                      {issue && " ⚠"}
+                                    </td>
+                                  );
+                                })()}
+
                               {/* Category with colored badge */}
-                              <td className="px-3 py-2 whitespace-nowrap">
+                              <td className={cellClass(i, 2)} data-cell={`${i}:2`}>
                                 {editing?.id === row._id && editing?.field === "Category" ? (
                                   (() => {
                                     const current =
                                       (draftEdits[row._id]?.Category ??
                                         edits[row._id]?.Category ??
                                         row.Category) || "";
-                                    const safeValue = categorySet.includes(current)
-                                      ? current
-                                      : "OtherExpenses";
+                                    // keep values outside the taxonomy selectable instead of rewriting them
+                                    const known = categories.includes(current);
                                     return (
                                       <select
                                         className="border rounded px-2 py-1"
-                                        value={safeValue}
+                                        value={current}
                                         onChange={(e) =>
                                           setDraftEdits((d) => ({
                                             ...d,
@@ -1167,24 +3861,16 @@ export default function App() {
                                             },
                                           }))
                                         }
-                                        onKeyDown={(e) => {
-                                          if (e.key === "Enter") commitEditsFor(row._id);
-                                          if (e.key === "Escape") {
-                                            setDraftEdits((d) => ({
-                                              ...d,
-                                              [row._id]: {
-                                                ...(edits[row._id] || {}),
-                                              },
-                                            }));
-                                            setEditing(null);
-                                          }
-                                        }}
+                                        onKeyDown={editorKeyDown(row._id)}
                                         onBlur={() => commitEditsFor(row._id)}
                                         autoFocus
                                       >
-                                        {categorySet.map((c) => (
-                                          <option key={c} value={c}>
-                                            {c}
+                                        {!known && (
+                                          <option value={current}>{current}</option>
+                                        )}
+                                        {orderedCategories(taxonomy).map((c) => (
+                                          <option key={c.name} value={c.name}>
+                                            {c.parent ? `› ${c.name}` : c.name}
                                           </option>
                                         ))}
                                       </select>
@@ -1193,21 +3879,16 @@ export default function App() {
                                 ) : (
                                   <button
                                     className="text-left w-full"
-                                    onClick={() =>
-                                      setEditing({
-                                        id: row._id,
-                                        field: "Category",
-                                      })
-                                    }
+                                    onClick={cellClick(i, 2)}
                                   >
                                     {row.Category ? (
                                       <span
                                         className={classNames(
                                           "inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium",
-                                          categoryBadgeClass(row.Category)
+                                          categoryBadgeClass(taxonomy, row.Category)
                                         )}
                                       >
-                                        {row.Category}
+                                        {categoryPath(taxonomy, row.Category)}
                                       </span>
                                     ) : (
                                       <span className="text-gray-400">—</span>
@@ -1223,7 +3904,7 @@ export default function App() {
                               <td className="px-3 py-2 whitespace-nowrap">{row.Account}</td>
 
                               {/* Notes */}
-                              <td className="px-3 py-2 whitespace-nowrap">
+                              <td className={cellClass(i, 3)} data-cell={`${i}:3`}>
                                 {editing?.id === row._id && editing?.field === "Notes" ? (
                                   <input
                                     type="text"
@@ -1242,25 +3923,14 @@ export default function App() {
                                         },
                                       }))
                                     }
-                                    onKeyDown={(e) => {
-                                      if (e.key === "Enter") commitEditsFor(row._id);
-                                      if (e.key === "Escape") {
-                                        setDraftEdits((d) => ({
-                                          ...d,
-                                          [row._id]: {
-                                            ...(edits[row._id] || {}),
-                                          },
-                                        }));
-                                        setEditing(null);
-                                      }
-                                    }}
+                                    onKeyDown={editorKeyDown(row._id)}
                                     onBlur={() => commitEditsFor(row._id)}
                                     autoFocus
                                   />
                                 ) : (
                                   <button
                                     className="text-left w-full"
-                                    onClick={() => setEditing({ id: row._id, field: "Notes" })}
+                                    onClick={cellClick(i, 3)}
                                   >
                                     {row.Notes ? (
                                       row.Notes
@@ -1273,6 +3943,9 @@ export default function App() {
 
                               {/* Source */}
                               <td className="px-3 py-2 whitespace-nowrap">{row.Source}</td>
+
+                              {/* File (provenance) */}
+                              <td className="px-3 py-2 whitespace-nowrap text-gray-500">{row.File}</td>
                             </tr>
                           );
                         })}
@@ -1283,6 +3956,56 @@ export default function App() {
               )}
             </div>
 
+            {files.length > 0 && (
+              <FilesPanel
+                files={files}
+                sources={[
+                  ...bankAdapters.map((a) => a.id),
+                  ...mappingProfiles.map((p) => p.name),
+                ]}
+                onChange={updateFile}
+              />
+            )}
+
+            {duplicateItems.length > 0 && (
+              <DuplicatesPanel
+                items={duplicateItems}
+                onResolve={handleResolveDuplicates}
+              />
+            )}
+
+            {(history.past.length > 0 || history.future.length > 0) && (
+              <HistoryPanel
+                history={history}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+              />
+            )}
+
+            {sessions.length > 0 && (
+              <SessionsPanel
+                sessions={sessions}
+                currentHash={sessionMeta?.hash ?? null}
+                onResume={handleResumeSession}
+                onRename={handleRenameSession}
+                onDiscard={handleDiscardSession}
+              />
+            )}
+
+            {pendingMapping && (
+              <MappingWizard
+                key={pendingMapping.file.name}
+                initial={pendingMapping.profile}
+                sampleRows={pendingMapping.file.rows.slice(0, 5)}
+                takenNames={[
+                  ...bankAdapters.map((a) => a.id),
+                  ...mappingProfiles.map((p) => p.name),
+                ]}
+                onSave={handleSaveMapping}
+                onCancel={handleCancelMapping}
+              />
+            )}
+
             <div className="bg-white rounded-2xl shadow p-5">
               <h3 className="font-semibold mb-2">How it works</h3>
               <ol className="list-decimal ml-5 text-sm text-gray-700 space-y-1">
@@ -1291,8 +4014,8 @@ export default function App() {
                   but recommended).
                 </li>
                 <li>
-                  Back to <b>Transform</b> → upload the Revolut{" "}
-                  <code>.csv</code> export.
+                  Back to <b>Transform</b> → upload the Revolut, N26, Monzo,
+                  Wise or Intesa Sanpaolo <code>.csv</code> export.
                 </li>
                 <li>
                   Click <b>Classify with LLM</b> to assign categories by
@@ -1309,7 +4032,7 @@ export default function App() {
       </main>
 
       <footer className="max-w-6xl mx-auto px-4 pb-10 text-xs text-gray-500">
-        Built for Revolut exports • Amounts are normalized as positive numbers,
+        Built for Revolut, N26, Monzo, Wise and Intesa Sanpaolo exports • Amounts are normalized as positive numbers,
         with <i>Type</i> carrying the sign.
       </footer>
     </div>
@@ -0,0 +1,228 @@
+import {
+  parseAmount,
+  parseDate,
+  toISODate,
+  type DateFormat,
+  type RawRow,
+} from "./parse";
+
+// ---- Bank import adapters ----
+// Each adapter knows one bank's CSV export: the header signature used to detect it,
+// how to read its dates/amounts/state, and how to map a row onto NormalizedRow.
+
+export type NormalizedRow = {
+  Date: string; // YYYY-MM-DD
+  Amount: number; // signed: negative = money out
+  Currency: string;
+  Name: string;
+  State: string; // "COMPLETED" for booked rows, anything else is filtered by "completed only"
+  Fee: number;
+  Balance: string;
+  Kind: string; // bank-specific transaction type (e.g. Revolut CARD_PAYMENT, EXCHANGE)
+  Timestamp: string; // date and time as exported; "" when the bank only gives a date
+};
+
+export type BankAdapter = {
+  id: string;
+  headers: string[];
+  dateFields: string[]; // selectable date columns, first is the default
+  dateFormat: DateFormat;
+  feeInAmount?: boolean; // Amount already has Fee taken off
+  pairsTransfers?: boolean; // exchanges and internal transfers come as two timed legs
+  normalize: (row: RawRow, dateField: string) => NormalizedRow;
+};
+
+const v = (row: RawRow, col: string) => (row[col] ?? "").toString().trim();
+
+function pickDateField(adapter: BankAdapter, dateField: string): string {
+  return adapter.dateFields.includes(dateField)
+    ? dateField
+    : adapter.dateFields[0];
+}
+
+const revolut: BankAdapter = {
+  id: "Revolut",
+  headers: [
+    "Type",
+    "Product",
+    "Started Date",
+    "Completed Date",
+    "Description",
+    "Amount",
+    "Fee",
+    "Currency",
+    "State",
+    "Balance",
+  ],
+  dateFields: ["Completed Date", "Started Date"],
+  dateFormat: "YYYY-MM-DD",
+  pairsTransfers: true,
+  normalize(row, dateField) {
+    const field = pickDateField(revolut, dateField);
+    return {
+      // pending rows have no Completed Date yet
+      Date: toISODate(
+        v(row, field) || v(row, "Completed Date") || v(row, "Started Date"),
+      ),
+      Amount: parseAmount(v(row, "Amount") || "0"),
+      Currency: v(row, "Currency"),
+      Name: v(row, "Description"),
+      State: v(row, "State").toUpperCase(),
+      Fee: parseAmount(v(row, "Fee")),
+      Balance: v(row, "Balance"),
+      Kind: v(row, "Type").toUpperCase(),
+      // both legs of an exchange or pocket transfer start at the same moment
+      Timestamp: v(row, "Started Date"),
+    };
+  },
+};
+
+// N26 "Download transactions" export; all amounts are in the account currency (EUR).
+const n26: BankAdapter = {
+  id: "N26",
+  headers: [
+    "Date",
+    "Payee",
+    "Account number",
+    "Transaction type",
+    "Payment reference",
+    "Amount (EUR)",
+  ],
+  dateFields: ["Date"],
+  dateFormat: "YYYY-MM-DD",
+  normalize(row) {
+    return {
+      Date: parseDate(v(row, "Date"), n26.dateFormat),
+      Amount: parseAmount(v(row, "Amount (EUR)")),
+      Currency: "EUR",
+      Name: v(row, "Payee") || v(row, "Payment reference"),
+      State: "COMPLETED",
+      Fee: 0,
+      Balance: "",
+      Kind: v(row, "Transaction type"),
+      Timestamp: "",
+    };
+  },
+};
+
+const monzo: BankAdapter = {
+  id: "Monzo",
+  headers: [
+    "Transaction ID",
+    "Date",
+    "Time",
+    "Type",
+    "Name",
+    "Amount",
+    "Currency",
+  ],
+  dateFields: ["Date"],
+  dateFormat: "DD/MM/YYYY",
+  normalize(row) {
+    return {
+      Date: parseDate(v(row, "Date"), monzo.dateFormat),
+      Amount: parseAmount(v(row, "Amount")),
+      Currency: v(row, "Currency"),
+      Name: v(row, "Name") || v(row, "Description"),
+      State: "COMPLETED",
+      Fee: 0,
+      Balance: "",
+      Kind: v(row, "Type"),
+      Timestamp: `${v(row, "Date")} ${v(row, "Time")}`.trim(),
+    };
+  },
+};
+
+// Wise account statement (one currency balance per file).
+const wise: BankAdapter = {
+  id: "Wise",
+  headers: [
+    "TransferWise ID",
+    "Date",
+    "Amount",
+    "Currency",
+    "Description",
+    "Running Balance",
+  ],
+  dateFields: ["Date"],
+  // day first: statements write 09-08-2025 (parseDate takes any separator)
+  dateFormat: "DD/MM/YYYY",
+  feeInAmount: true,
+  normalize(row) {
+    return {
+      Date: parseDate(v(row, "Date"), wise.dateFormat),
+      Amount: parseAmount(v(row, "Amount")),
+      Currency: v(row, "Currency"),
+      Name: v(row, "Merchant") || v(row, "Description"),
+      State: "COMPLETED",
+      Fee: parseAmount(v(row, "Total fees")),
+      Balance: v(row, "Running Balance"),
+      Kind: v(row, "TransferWise ID").split("-")[0],
+      Timestamp: "",
+    };
+  },
+};
+
+// Intesa Sanpaolo "Lista movimenti" export (semicolon-separated, EU decimals).
+const intesa: BankAdapter = {
+  id: "Intesa Sanpaolo",
+  headers: [
+    "Data",
+    "Operazione",
+    "Dettagli",
+    "Conto o carta",
+    "Contabilizzazione",
+    "Valuta",
+    "Importo",
+  ],
+  dateFields: ["Data"],
+  dateFormat: "DD/MM/YYYY",
+  normalize(row) {
+    const booked = v(row, "Contabilizzazione").toLowerCase();
+    return {
+      Date: parseDate(v(row, "Data"), intesa.dateFormat),
+      Amount: parseAmount(v(row, "Importo")),
+      Currency: v(row, "Valuta") || "EUR",
+      Name: v(row, "Operazione"),
+      State: booked === "contabilizzato" ? "COMPLETED" : "PENDING",
+      Fee: 0,
+      Balance: "",
+      Kind: "",
+      Timestamp: "",
+    };
+  },
+};
+
+export const bankAdapters: BankAdapter[] = [revolut, n26, monzo, wise, intesa];
+
+export function getAdapter(id: string): BankAdapter {
+  return bankAdapters.find((a) => a.id === id) || revolut;
+}
+
+export function missingHeaders(
+  adapter: BankAdapter,
+  headers: string[],
+): string[] {
+  return adapter.headers.filter((h) => !headers.includes(h));
+}
+
+// First adapter whose whole header signature is present wins, so keep the
+// more specific signatures ahead of generic ones in `bankAdapters`.
+export function detectAdapter(headers: string[]): BankAdapter | null {
+  return (
+    bankAdapters.find((a) => missingHeaders(a, headers).length === 0) || null
+  );
+}
+
+export type IndexedRow = NormalizedRow & { index: number };
+
+// Empty lines are dropped before indexing so a file always yields the same row ids.
+export function normalizeRows(
+  rows: RawRow[],
+  adapter: BankAdapter,
+  dateField: string
+): IndexedRow[] {
+  return (rows || [])
+    .filter((r) => !!r && Object.keys(r).length > 0)
+    .map((r, index) => ({ ...adapter.normalize(r, dateField), index }));
+}
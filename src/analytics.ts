@@ -0,0 +1,154 @@
+import { merchantKey } from "./rules";
+
+// ---- Dashboard aggregates ----
+// Computed from the table rows (absolute Amount + Type), one currency at a
+// time: amounts in different currencies are never added together.
+
+export type AnalyticsRow = {
+  Date: string;
+  Type: string;
+  Amount: string;
+  Currency: string;
+  Category: string;
+  Name: string;
+};
+
+// What a chart click narrows the table down to; unset fields match everything.
+export type DashboardFilter = {
+  currency: string;
+  month?: string; // YYYY-MM
+  category?: string;
+  merchant?: string; // merchantKey
+  type?: string; // Expense, Income or Transfer
+};
+
+export type MonthTotals = {
+  month: string;
+  income: number;
+  expenses: number;
+  net: number;
+  cumulative: number; // running net since the first month
+  byCategory: Record<string, number>; // expenses only
+};
+
+export type Total = {
+  key: string;
+  label: string;
+  total: number;
+  count: number;
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const amountOf = (r: AnalyticsRow) => Math.abs(parseFloat(r.Amount) || 0);
+
+const monthOf = (r: AnalyticsRow) => r.Date.slice(0, 7) || "Undated";
+
+export function matchesFilter(r: AnalyticsRow, f: DashboardFilter): boolean {
+  return (
+    r.Currency === f.currency &&
+    (!f.month || monthOf(r) === f.month) &&
+    (f.category === undefined || r.Category === f.category) &&
+    (f.merchant === undefined || merchantKey(r.Name) === f.merchant) &&
+    (!f.type || r.Type === f.type)
+  );
+}
+
+// Currencies by number of rows, most used first.
+export function currencies(rows: AnalyticsRow[]): string[] {
+  const counts = new Map<string, number>();
+  for (const r of rows)
+    counts.set(r.Currency, (counts.get(r.Currency) || 0) + 1);
+  return Array.from(counts)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([c]) => c);
+}
+
+export function monthlyTotals(
+  rows: AnalyticsRow[],
+  currency: string
+): MonthTotals[] {
+  const months = new Map<string, MonthTotals>();
+  for (const r of rows) {
+    if (r.Currency !== currency) continue;
+    const month = monthOf(r);
+    let m = months.get(month);
+    if (!m) {
+      m = {
+        month,
+        income: 0,
+        expenses: 0,
+        net: 0,
+        cumulative: 0,
+        byCategory: {},
+      };
+      months.set(month, m);
+    }
+    const n = amountOf(r);
+    if (r.Type === "Expense") {
+      m.expenses += n;
+      m.byCategory[r.Category] = (m.byCategory[r.Category] || 0) + n;
+    } else if (r.Type === "Income") m.income += n; // not transfers
+  }
+  let running = 0;
+  return Array.from(months.values())
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map((m) => {
+      running += m.income - m.expenses;
+      const byCategory: Record<string, number> = {};
+      for (const [c, n] of Object.entries(m.byCategory))
+        byCategory[c] = round(n);
+      return {
+        ...m,
+        income: round(m.income),
+        expenses: round(m.expenses),
+        net: round(m.income - m.expenses),
+        cumulative: round(running),
+        byCategory,
+      };
+    });
+}
+
+function totalsBy(
+  rows: AnalyticsRow[],
+  keyOf: (r: AnalyticsRow) => string
+): Total[] {
+  const out = new Map<string, Total>();
+  for (const r of rows) {
+    const key = keyOf(r);
+    const t = out.get(key) || { key, label: r.Name, total: 0, count: 0 };
+    t.total += amountOf(r);
+    t.count++;
+    out.set(key, t);
+  }
+  return Array.from(out.values())
+    .map((t) => ({ ...t, total: round(t.total) }))
+    .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+}
+
+// Expense categories, largest first.
+export function categoryBreakdown(
+  rows: AnalyticsRow[],
+  currency: string
+): Total[] {
+  const expenses = rows.filter(
+    (r) => r.Currency === currency && r.Type === "Expense"
+  );
+  return totalsBy(expenses, (r) => r.Category).map((t) => ({
+    ...t,
+    label: t.key,
+  }));
+}
+
+// Merchants by total spent, grouped by merchantKey; the label is the first
+// name seen for the merchant.
+export function topMerchants(
+  rows: AnalyticsRow[],
+  currency: string,
+  limit = 10
+): Total[] {
+  const expenses = rows.filter(
+    (r) => r.Currency === currency && r.Type === "Expense"
+  );
+  return totalsBy(expenses, (r) => merchantKey(r.Name)).slice(0, limit);
+}
@@ -0,0 +1,149 @@
+import type { AnalyticsRow } from "./analytics";
+import type { Taxonomy } from "./taxonomy";
+
+// ---- Monthly category budgets ----
+// A limit per taxonomy entry, evaluated against the loaded rows in one
+// currency. A parent category's budget covers its subcategories too.
+
+export type Budget = {
+  category: string;
+  limit: number; // per month, > 0
+  rollover: boolean; // carry unspent (or overspent) amounts into the next month
+};
+
+export type BudgetStatus = "ok" | "projected" | "over";
+
+export type BudgetProgress = {
+  category: string;
+  limit: number;
+  carried: number; // from earlier months, only with rollover
+  available: number;
+  spent: number;
+  projected: number; // month-end spend at the current daily rate
+  status: BudgetStatus;
+};
+
+const storageKey = "rcvt_budgets";
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export function loadBudgets(): Budget[] {
+  try {
+    const s = localStorage.getItem(storageKey);
+    const list = s ? JSON.parse(s) : [];
+    if (!Array.isArray(list)) return [];
+    return list
+      .filter((b) => typeof b?.category === "string" && Number(b.limit) > 0)
+      .map((b) => ({
+        category: b.category,
+        limit: Number(b.limit),
+        rollover: !!b.rollover,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+export function saveBudgets(budgets: Budget[]) {
+  localStorage.setItem(storageKey, JSON.stringify(budgets));
+}
+
+// Follows taxonomy renames/merges; budgets merged onto one category add up.
+export function migrateBudgets(
+  budgets: Budget[],
+  move: (category: string) => string
+): Budget[] {
+  const out = new Map<string, Budget>();
+  for (const b of budgets) {
+    const category = move(b.category);
+    const prev = out.get(category);
+    out.set(
+      category,
+      prev
+        ? {
+            category,
+            limit: round(prev.limit + b.limit),
+            rollover: prev.rollover || b.rollover,
+          }
+        : { ...b, category }
+    );
+  }
+  return Array.from(out.values());
+}
+
+// Months between two YYYY-MM values, both included.
+export function monthRange(from: string, to: string): string[] {
+  const out: string[] = [];
+  let [y, m] = from.split("-").map(Number);
+  while (out.length < 1200) {
+    const month = `${y}-${String(m).padStart(2, "0")}`;
+    if (month > to) break;
+    out.push(month);
+    if (++m > 12) {
+      m = 1;
+      y++;
+    }
+  }
+  return out;
+}
+
+const daysInMonth = (month: string) => {
+  const [y, m] = month.split("-").map(Number);
+  return new Date(Date.UTC(y, m, 0)).getUTCDate();
+};
+
+// Progress in `month`. "Today" is the latest date in the loaded rows, so an
+// export taken mid-month projects that month and earlier months are complete.
+export function evaluateBudgets(
+  budgets: Budget[],
+  taxonomy: Taxonomy,
+  rows: AnalyticsRow[],
+  currency: string,
+  month: string
+): BudgetProgress[] {
+  const dated = rows.filter((r) => /^\d{4}-\d{2}/.test(r.Date));
+  const asOf = dated.reduce((d, r) => (r.Date > d ? r.Date : d), "");
+  const first = dated
+    .reduce((d, r) => (!d || r.Date < d ? r.Date : d), "")
+    .slice(0, 7);
+
+  // expenses per category and month
+  const spentBy = new Map<string, number>();
+  for (const r of dated) {
+    if (r.Currency !== currency || r.Type !== "Expense") continue;
+    const k = `${r.Category}\u0000${r.Date.slice(0, 7)}`;
+    spentBy.set(k, (spentBy.get(k) || 0) + Math.abs(parseFloat(r.Amount) || 0));
+  }
+  const spentIn = (category: string, m: string) =>
+    [
+      category,
+      ...taxonomy.categories
+        .filter((c) => c.parent === category)
+        .map((c) => c.name),
+    ].reduce((n, c) => n + (spentBy.get(`${c}\u0000${m}`) || 0), 0);
+
+  const elapsed =
+    asOf.slice(0, 7) === month ? Number(asOf.slice(8, 10)) || 1 : 0;
+
+  return budgets.map((b) => {
+    let carried = 0;
+    if (b.rollover && first && first < month) {
+      for (const m of monthRange(first, month).slice(0, -1))
+        carried += b.limit - spentIn(b.category, m);
+    }
+    const spent = spentIn(b.category, month);
+    const available = b.limit + carried;
+    const projected =
+      elapsed > 0 ? (spent / elapsed) * daysInMonth(month) : spent;
+    return {
+      category: b.category,
+      limit: b.limit,
+      carried: round(carried),
+      available: round(available),
+      spent: round(spent),
+      projected: round(projected),
+      status:
+        spent > available ? "over" : projected > available ? "projected" : "ok",
+    };
+  });
+}
@@ -0,0 +1,92 @@
+// ---- Bulk actions on selected rows ----
+// Each action turns into per-row edits; rows it would leave unchanged are
+// dropped, so the count of the result is the preview shown before applying.
+
+export type BulkField = "Category" | "Notes" | "Date" | "Type" | "Account";
+
+export type BulkAction =
+  | { kind: "category"; category: string }
+  | { kind: "notes"; mode: "set" | "append"; text: string }
+  | { kind: "date"; days: number }
+  | { kind: "type"; type: string }
+  | { kind: "account"; account: string }
+  | { kind: "delete" };
+
+export type BulkRow = { _id: string } & Record<BulkField, string>;
+
+export const bulkTypes = ["Expense", "Income", "Transfer"];
+
+// Moves an ISO date by whole days (UTC, so DST does not shift it).
+export function shiftDate(date: string, days: number): string {
+  if (!/^\d{4}-\d{2}-\d{2}/.test(date)) return date;
+  const t = Date.parse(`${date.slice(0, 10)}T00:00:00Z`) + days * 86400000;
+  return new Date(t).toISOString().slice(0, 10);
+}
+
+function changeFor(
+  row: BulkRow,
+  a: BulkAction
+): Partial<Record<BulkField, string>> | null {
+  switch (a.kind) {
+    case "category":
+      return { Category: a.category };
+    case "notes": {
+      const text = a.text.trim();
+      if (a.mode === "set") return { Notes: text };
+      if (!text) return null;
+      return { Notes: row.Notes ? `${row.Notes} ${text}` : text };
+    }
+    case "date":
+      return a.days ? { Date: shiftDate(row.Date, a.days) } : null;
+    case "type":
+      return { Type: a.type };
+    case "account":
+      return { Account: a.account.trim() };
+    case "delete":
+      return null;
+  }
+}
+
+// Edits per row id for the rows the action changes.
+export function bulkChanges(
+  rows: BulkRow[],
+  a: BulkAction
+): Record<string, Partial<Record<BulkField, string>>> {
+  const out: Record<string, Partial<Record<BulkField, string>>> = {};
+  for (const row of rows) {
+    const change = changeFor(row, a);
+    if (!change) continue;
+    const fields = Object.keys(change) as BulkField[];
+    if (fields.some((f) => change[f] !== row[f])) out[row._id] = change;
+  }
+  return out;
+}
+
+// "3 rows → Groceries" style summary for the history panel.
+export function describeBulk(a: BulkAction, n: number): string {
+  const rows = `${n} ${n === 1 ? "row" : "rows"}`;
+  switch (a.kind) {
+    case "category":
+      return `${rows} → ${a.category}`;
+    case "notes":
+      return `${rows}: ${a.mode === "set" ? "notes" : "append"} "${a.text.trim()}"`;
+    case "date":
+      return `${rows} ${a.days > 0 ? "+" : ""}${a.days} days`;
+    case "type":
+      return `${rows} → ${a.type}`;
+    case "account":
+      return `${rows} → ${a.account.trim() || "(no account)"}`;
+    case "delete":
+      return rows;
+  }
+}
+
+// History panel labels.
+export const bulkLabels: Record<BulkAction["kind"], string> = {
+  category: "Bulk category",
+  notes: "Bulk notes",
+  date: "Bulk date shift",
+  type: "Bulk type",
+  account: "Bulk account",
+  delete: "Bulk delete",
+};
@@ -0,0 +1,229 @@
+import { useMemo, useState } from "react";
+import type { AnalyticsRow } from "../analytics";
+import { evaluateBudgets, type Budget, type BudgetStatus } from "../budgets";
+import {
+  categoryBadgeClass,
+  categoryPath,
+  orderedCategories,
+  type Taxonomy,
+} from "../taxonomy";
+
+type Props = {
+  budgets: Budget[];
+  taxonomy: Taxonomy;
+  rows: AnalyticsRow[];
+  currency: string;
+  onChange: (next: Budget[]) => void;
+};
+
+const money = (n: number) => n.toFixed(2);
+
+const barColor: Record<BudgetStatus, string> = {
+  ok: "bg-green-500",
+  projected: "bg-amber-400",
+  over: "bg-red-500",
+};
+
+export default function BudgetsPanel({
+  budgets,
+  taxonomy,
+  rows,
+  currency,
+  onChange,
+}: Props) {
+  const [editing, setEditing] = useState(false);
+  const [picked, setPicked] = useState("");
+
+  const months = useMemo(() => {
+    const s = new Set<string>();
+    for (const r of rows)
+      if (r.Currency === currency && /^\d{4}-\d{2}/.test(r.Date))
+        s.add(r.Date.slice(0, 7));
+    return Array.from(s).sort().reverse();
+  }, [rows, currency]);
+  const month = months.includes(picked) ? picked : months[0] || "";
+
+  const progress = useMemo(
+    () =>
+      month ? evaluateBudgets(budgets, taxonomy, rows, currency, month) : [],
+    [budgets, taxonomy, rows, currency, month]
+  );
+  const over = progress.filter((p) => p.status === "over").length;
+  const projected = progress.filter((p) => p.status === "projected").length;
+
+  function setBudget(category: string, patch: Partial<Budget>) {
+    const current = budgets.find((b) => b.category === category);
+    const next = { category, limit: 0, rollover: false, ...current, ...patch };
+    const rest = budgets.filter((b) => b.category !== category);
+    onChange(next.limit > 0 ? [...rest, next] : rest);
+  }
+
+  // listed in taxonomy order
+  const order = orderedCategories(taxonomy).map((c) => c.name);
+  const sorted = [...progress].sort(
+    (a, b) => order.indexOf(a.category) - order.indexOf(b.category)
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-5">
+      <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+        <h3 className="font-semibold">Budgets</h3>
+        {months.length > 0 && (
+          <select
+            className="border rounded-lg px-2 py-1"
+            value={month}
+            onChange={(e) => setPicked(e.target.value)}
+          >
+            {months.map((m) => (
+              <option key={m} value={m}>
+                {m}
+              </option>
+            ))}
+          </select>
+        )}
+        {over > 0 && (
+          <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">
+            {over} over budget
+          </span>
+        )}
+        {projected > 0 && (
+          <span className="px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-800">
+            {projected} on track to overspend
+          </span>
+        )}
+        <div className="flex-1" />
+        <button
+          onClick={() => setEditing((v) => !v)}
+          className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white"
+        >
+          {editing ? "Done" : "Edit budgets"}
+        </button>
+      </div>
+
+      {editing ? (
+        <div className="overflow-auto rounded-xl border">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                <th className="text-left font-semibold px-3 py-2">Category</th>
+                <th className="text-left font-semibold px-3 py-2">
+                  Monthly limit ({currency})
+                </th>
+                <th className="text-left font-semibold px-3 py-2">Rollover</th>
+              </tr>
+            </thead>
+            <tbody>
+              {orderedCategories(taxonomy).map((c) => {
+                const b = budgets.find((x) => x.category === c.name);
+                return (
+                  <tr key={c.name} className="border-t">
+                    <td className="px-3 py-1.5">
+                      <span className={c.parent ? "pl-4" : ""}>
+                        {c.parent ? `› ${c.name}` : c.name}
+                      </span>
+                    </td>
+                    <td className="px-3 py-1.5">
+                      <input
+                        key={`${c.name}:${b?.limit ?? ""}`}
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className="border rounded px-2 py-1 w-28"
+                        defaultValue={b?.limit ?? ""}
+                        placeholder="No budget"
+                        onBlur={(e) =>
+                          setBudget(c.name, {
+                            limit: Math.max(0, Number(e.target.value) || 0),
+                          })
+                        }
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") e.currentTarget.blur();
+                        }}
+                      />
+                    </td>
+                    <td className="px-3 py-1.5">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4"
+                        checked={!!b?.rollover}
+                        disabled={!b}
+                        onChange={(e) =>
+                          setBudget(c.name, { rollover: e.target.checked })
+                        }
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 px-3 py-2">
+            A parent category's limit covers its subcategories. With rollover,
+            what is left (or overspent) in earlier loaded months is added to the
+            month's limit.
+          </p>
+        </div>
+      ) : !budgets.length ? (
+        <p className="text-sm text-gray-600">
+          No budgets yet. Click <b>Edit budgets</b> to set a monthly limit per
+          category.
+        </p>
+      ) : (
+        <ul className="grid gap-3 text-sm">
+          {sorted.map((p) => (
+            <li
+              key={p.category}
+              className={
+                p.status === "over"
+                  ? "rounded-lg bg-red-50 -mx-2 px-2 py-1"
+                  : ""
+              }
+            >
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <span
+                  className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${categoryBadgeClass(
+                    taxonomy,
+                    p.category
+                  )}`}
+                >
+                  {categoryPath(taxonomy, p.category)}
+                </span>
+                {p.status === "over" && (
+                  <span className="text-xs font-medium text-red-700">
+                    Over by {money(p.spent - p.available)}
+                  </span>
+                )}
+                <div className="flex-1" />
+                <span className="tabular-nums">
+                  <b>{money(p.spent)}</b> / {money(p.available)} {currency}
+                </span>
+              </div>
+              <div className="relative h-2.5 rounded bg-gray-100">
+                <div
+                  className={`h-2.5 rounded ${barColor[p.status]}`}
+                  style={{
+                    width: `${p.available > 0 ? Math.min((p.spent / p.available) * 100, 100) : 100}%`,
+                  }}
+                />
+                {/* projected month-end spend */}
+                {p.projected > p.spent && p.available > 0 && (
+                  <div
+                    className="absolute top-0 h-2.5 border-r-2 border-gray-700"
+                    style={{
+                      width: `${Math.min((p.projected / p.available) * 100, 100)}%`,
+                    }}
+                  />
+                )}
+              </div>
+              <div className="text-xs text-gray-500 mt-0.5">
+                Projected {money(p.projected)}
+                {p.carried !== 0 &&
+                  ` • ${p.carried > 0 ? "+" : ""}${money(p.carried)} rolled over`}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { bulkChanges, bulkTypes, type BulkAction, type BulkRow } from "../bulk";
+import { orderedCategories, type Taxonomy } from "../taxonomy";
+
+type Props = {
+  selected: BulkRow[]; // selected rows, including ones the filters hide
+  hidden: number; // selected rows outside the current table view
+  matching: number; // rows in the current table view
+  taxonomy: Taxonomy;
+  accounts: string[];
+  onSelectMatching: () => void;
+  onInvert: () => void;
+  onClear: () => void;
+  onApply: (action: BulkAction) => void;
+};
+
+type Kind = BulkAction["kind"];
+
+const kinds: { id: Kind; label: string }[] = [
+  { id: "category", label: "Category" },
+  { id: "notes", label: "Notes" },
+  { id: "date", label: "Shift date" },
+  { id: "type", label: "Type" },
+  { id: "account", label: "Account" },
+  { id: "delete", label: "Delete" },
+];
+
+export default function BulkActionBar({
+  selected,
+  hidden,
+  matching,
+  taxonomy,
+  accounts,
+  onSelectMatching,
+  onInvert,
+  onClear,
+  onApply,
+}: Props) {
+  const [kind, setKind] = useState<Kind>("category");
+  const [picked, setPicked] = useState<string>("");
+  const [notesMode, setNotesMode] = useState<"set" | "append">("set");
+  const [notes, setNotes] = useState<string>("");
+  const [days, setDays] = useState<string>("1");
+  const [type, setType] = useState<string>(bulkTypes[0]);
+  const [account, setAccount] = useState<string>("");
+
+  // a renamed or deleted category falls back to the first one
+  const options = orderedCategories(taxonomy);
+  const category = options.some((c) => c.name === picked)
+    ? picked
+    : (options[0]?.name ?? "");
+
+  const action: BulkAction =
+    kind === "category"
+      ? { kind, category }
+      : kind === "notes"
+        ? { kind, mode: notesMode, text: notes }
+        : kind === "date"
+          ? { kind, days: parseInt(days, 10) || 0 }
+          : kind === "type"
+            ? { kind, type }
+            : kind === "account"
+              ? { kind, account }
+              : { kind };
+  // the preview: how many selected rows the action actually changes
+  const affected =
+    kind === "delete"
+      ? selected.length
+      : Object.keys(bulkChanges(selected, action)).length;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm bg-gray-50 border rounded-lg px-3 py-2">
+      <span className="text-gray-600">
+        Selected: <b>{selected.length}</b>
+        {hidden > 0 && ` (${hidden} hidden by filters)`}
+      </span>
+      <button
+        onClick={onSelectMatching}
+        disabled={!matching}
+        className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50 disabled:opacity-40"
+        title="Select every row the table currently shows"
+      >
+        Select all matching ({matching})
+      </button>
+      <button
+        onClick={onInvert}
+        disabled={!matching}
+        className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50 disabled:opacity-40"
+        title="Swap selected and unselected rows in the current view"
+      >
+        Invert
+      </button>
+      {selected.length > 0 && (
+        <button
+          onClick={onClear}
+          className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50"
+        >
+          Clear
+        </button>
+      )}
+
+      <span className="mx-1 h-5 border-l" />
+
+      <select
+        className="border rounded-lg px-2 py-1"
+        value={kind}
+        onChange={(e) => setKind(e.target.value as Kind)}
+        aria-label="Bulk action"
+      >
+        {kinds.map((k) => (
+          <option key={k.id} value={k.id}>
+            {k.label}
+          </option>
+        ))}
+      </select>
+
+      {kind === "category" && (
+        <select
+          className="border rounded-lg px-2 py-1"
+          value={category}
+          onChange={(e) => setPicked(e.target.value)}
+        >
+          {options.map((c) => (
+            <option key={c.name} value={c.name}>
+              {c.parent ? `› ${c.name}` : c.name}
+            </option>
+          ))}
+        </select>
+      )}
+      {kind === "notes" && (
+        <>
+          <select
+            className="border rounded-lg px-2 py-1"
+            value={notesMode}
+            onChange={(e) => setNotesMode(e.target.value as "set" | "append")}
+          >
+            <option value="set">Replace with</option>
+            <option value="append">Append</option>
+          </select>
+          <input
+            className="border rounded-lg px-2 py-1 w-48"
+            value={notes}
+            placeholder={notesMode === "set" ? "Empty clears notes" : "Text"}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </>
+      )}
+      {kind === "date" && (
+        <label className="flex items-center gap-1">
+          <input
+            type="number"
+            className="border rounded-lg px-2 py-1 w-20"
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+          />
+          days
+        </label>
+      )}
+      {kind === "type" && (
+        <select
+          className="border rounded-lg px-2 py-1"
+          value={type}
+          onChange={(e) => setType(e.target.value)}
+        >
+          {bulkTypes.map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+      )}
+      {kind === "account" && (
+        <>
+          <input
+            className="border rounded-lg px-2 py-1 w-40"
+            value={account}
+            list="bulk-accounts"
+            placeholder="Account"
+            onChange={(e) => setAccount(e.target.value)}
+          />
+          <datalist id="bulk-accounts">
+            {accounts.map((a) => (
+              <option key={a} value={a} />
+            ))}
+          </datalist>
+        </>
+      )}
+
+      <span className="text-gray-600">
+        {kind === "delete" ? "Deletes" : "Changes"} <b>{affected}</b> of{" "}
+        {selected.length} {selected.length === 1 ? "row" : "rows"}
+      </span>
+      <button
+        onClick={() => onApply(action)}
+        disabled={!affected}
+        className={
+          kind === "delete"
+            ? "px-2 py-1 rounded-lg text-xs bg-red-600 text-white hover:bg-red-700 disabled:opacity-40"
+            : "px-2 py-1 rounded-lg text-xs bg-gray-900 text-white disabled:opacity-40"
+        }
+      >
+        {kind === "delete" ? "Delete" : "Apply"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+import { useMemo, useState } from "react";
+import {
+  categoryBreakdown,
+  currencies,
+  monthlyTotals,
+  topMerchants,
+  type AnalyticsRow,
+  type DashboardFilter,
+  type Total,
+} from "../analytics";
+import type { Budget } from "../budgets";
+import BudgetsPanel from "./BudgetsPanel";
+import { categoryChartClass, categoryPath, type Taxonomy } from "../taxonomy";
+
+type Props = {
+  rows: AnalyticsRow[];
+  taxonomy: Taxonomy;
+  budgets: Budget[];
+  onBudgetsChange: (next: Budget[]) => void;
+  onFilter: (f: DashboardFilter) => void; // show the rows behind a bar in the table
+};
+
+const money = (n: number) => n.toFixed(2);
+
+// Bar width as a share of the largest value, never quite invisible.
+const pct = (n: number, max: number) =>
+  `${max > 0 ? Math.max((Math.abs(n) / max) * 100, n ? 1 : 0) : 0}%`;
+
+export default function Dashboard({
+  rows,
+  taxonomy,
+  budgets,
+  onBudgetsChange,
+  onFilter,
+}: Props) {
+  const available = useMemo(() => currencies(rows), [rows]);
+  const [picked, setPicked] = useState("");
+  const currency = available.includes(picked) ? picked : available[0] || "";
+
+  const months = useMemo(() => monthlyTotals(rows, currency), [rows, currency]);
+  const categories = useMemo(
+    () => categoryBreakdown(rows, currency),
+    [rows, currency]
+  );
+  const merchants = useMemo(
+    () => topMerchants(rows, currency),
+    [rows, currency]
+  );
+
+  if (!rows.length) {
+    return (
+      <div className="bg-white rounded-2xl shadow p-5 text-sm text-gray-600">
+        Upload a CSV on the Transform tab to see the dashboard.
+      </div>
+    );
+  }
+
+  const income = months.reduce((n, m) => n + m.income, 0);
+  const expenses = months.reduce((n, m) => n + m.expenses, 0);
+  const maxFlow = Math.max(0, ...months.flatMap((m) => [m.income, m.expenses]));
+  const maxNet = Math.max(0, ...months.map((m) => Math.abs(m.net)));
+  const totalExpenses = categories.reduce((n, c) => n + c.total, 0);
+  const filter = (f: Omit<DashboardFilter, "currency">) =>
+    onFilter({ currency, ...f });
+
+  const barList = (
+    items: Total[],
+    label: (t: Total) => string,
+    color: (t: Total) => string,
+    onClick: (t: Total) => void
+  ) => {
+    const max = items[0]?.total || 0;
+    return (
+      <ul className="grid gap-1.5 text-sm">
+        {items.map((t) => (
+          <li key={t.key}>
+            <button
+              onClick={() => onClick(t)}
+              className="w-full text-left group"
+              title="Show these rows in the table"
+            >
+              <div className="flex gap-2">
+                <span className="truncate group-hover:underline">
+                  {label(t)}
+                </span>
+                <div className="flex-1" />
+                <span className="tabular-nums whitespace-nowrap">
+                  {money(t.total)}
+                </span>
+                <span className="text-gray-500 w-12 text-right">
+                  {totalExpenses
+                    ? `${Math.round((t.total / totalExpenses) * 100)}%`
+                    : ""}
+                </span>
+              </div>
+              <div className="h-2 rounded bg-gray-100">
+                <div
+                  className={`h-2 rounded ${color(t)}`}
+                  style={{ width: pct(t.total, max) }}
+                />
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <section className="grid gap-6">
+      <div className="bg-white rounded-2xl shadow p-5">
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <h2 className="text-base font-semibold">Dashboard</h2>
+          {available.length > 1 && (
+            <label className="flex items-center gap-2 text-gray-700">
+              Currency
+              <select
+                className="border rounded-lg px-2 py-1"
+                value={currency}
+                onChange={(e) => setPicked(e.target.value)}
+              >
+                {available.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <div className="flex-1" />
+          <span className="text-gray-600">
+            Income{" "}
+            <b className="text-green-700">
+              {money(income)} {currency}
+            </b>
+          </span>
+          <span className="text-gray-600">
+            Expenses{" "}
+            <b className="text-red-700">
+              {money(expenses)} {currency}
+            </b>
+          </span>
+          <span className="text-gray-600">
+            Net{" "}
+            <b>
+              {money(income - expenses)} {currency}
+            </b>
+          </span>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          Built from the rows in the table (Type filter, edits and deletions
+          applied). Click a bar to show its rows on the Transform tab.
+        </p>
+      </div>
+
+      <BudgetsPanel
+        budgets={budgets}
+        taxonomy={taxonomy}
+        rows={rows}
+        currency={currency}
+        onChange={onBudgetsChange}
+      />
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="bg-white rounded-2xl shadow p-5">
+          <h3 className="font-semibold mb-3">Income vs expenses</h3>
+          <ul className="grid gap-2 text-sm">
+            {months.map((m) => (
+              <li key={m.month} className="grid grid-cols-[5rem_1fr] gap-2">
+                <button
+                  onClick={() => filter({ month: m.month })}
+                  className="text-left text-gray-700 hover:underline"
+                >
+                  {m.month}
+                </button>
+                <div className="grid gap-0.5">
+                  <button
+                    onClick={() => filter({ month: m.month, type: "Income" })}
+                    className="flex items-center gap-2"
+                    title={`Income ${money(m.income)}`}
+                  >
+                    <div
+                      className="h-2.5 rounded bg-green-500"
+                      style={{ width: pct(m.income, maxFlow) }}
+                    />
+                    <span className="text-xs tabular-nums text-gray-600">
+                      {money(m.income)}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => filter({ month: m.month, type: "Expense" })}
+                    className="flex items-center gap-2"
+                    title={`Expenses ${money(m.expenses)}`}
+                  >
+                    <div
+                      className="h-2.5 rounded bg-red-400"
+                      style={{ width: pct(m.expenses, maxFlow) }}
+                    />
+                    <span className="text-xs tabular-nums text-gray-600">
+                      {money(m.expenses)}
+                    </span>
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow p-5">
+          <h3 className="font-semibold mb-3">Net cash flow</h3>
+          <ul className="grid gap-2 text-sm">
+            {months.map((m) => (
+              <li key={m.month}>
+                <button
+                  onClick={() => filter({ month: m.month })}
+                  className="w-full grid grid-cols-[5rem_1fr_1fr_6rem] items-center gap-2"
+                  title={`Net ${money(m.net)}, running total ${money(m.cumulative)}`}
+                >
+                  <span className="text-left text-gray-700">{m.month}</span>
+                  {/* negative months grow left of the axis, positive ones right */}
+                  <div className="flex justify-end border-r border-gray-300">
+                    {m.net < 0 && (
+                      <div
+                        className="h-3 rounded-l bg-red-400"
+                        style={{ width: pct(m.net, maxNet) }}
+                      />
+                    )}
+                  </div>
+                  <div className="flex">
+                    {m.net > 0 && (
+                      <div
+                        className="h-3 rounded-r bg-green-500"
+                        style={{ width: pct(m.net, maxNet) }}
+                      />
+                    )}
+                  </div>
+                  <span className="text-right tabular-nums">
+                    {money(m.net)}
+                    <span className="block text-xs text-gray-500">
+                      Σ {money(m.cumulative)}
+                    </span>
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow p-5">
+        <h3 className="font-semibold mb-3">Monthly spending by category</h3>
+        <ul className="grid gap-2 text-sm">
+          {months.map((m) => {
+            const parts = Object.entries(m.byCategory).sort(
+              (a, b) => b[1] - a[1]
+            );
+            return (
+              <li
+                key={m.month}
+                className="grid grid-cols-[5rem_1fr_6rem] items-center gap-2"
+              >
+                <button
+                  onClick={() => filter({ month: m.month, type: "Expense" })}
+                  className="text-left text-gray-700 hover:underline"
+                >
+                  {m.month}
+                </button>
+                <div
+                  className="flex h-4"
+                  style={{ width: pct(m.expenses, maxFlow) }}
+                >
+                  {parts.map(([cat, n]) => (
+                    <button
+                      key={cat}
+                      onClick={() =>
+                        filter({
+                          month: m.month,
+                          category: cat,
+                          type: "Expense",
+                        })
+                      }
+                      className={`h-4 first:rounded-l last:rounded-r hover:opacity-75 ${categoryChartClass(
+                        taxonomy,
+                        cat
+                      )}`}
+                      style={{ width: pct(n, m.expenses) }}
+                      title={`${categoryPath(taxonomy, cat) || "Uncategorized"}: ${money(n)}`}
+                    />
+                  ))}
+                </div>
+                <span className="text-right tabular-nums">
+                  {money(m.expenses)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="bg-white rounded-2xl shadow p-5">
+          <h3 className="font-semibold mb-3">Spending by category</h3>
+          {categories.length ? (
+            barList(
+              categories,
+              (t) => categoryPath(taxonomy, t.key) || "Uncategorized",
+              (t) => categoryChartClass(taxonomy, t.key),
+              (t) => filter({ category: t.key, type: "Expense" })
+            )
+          ) : (
+            <p className="text-sm text-gray-500">No expenses.</p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-2xl shadow p-5">
+          <h3 className="font-semibold mb-3">Top merchants</h3>
+          {merchants.length ? (
+            barList(
+              merchants,
+              (t) => `${t.label} (${t.count})`,
+              () => "bg-indigo-400",
+              (t) => filter({ merchant: t.key, type: "Expense" })
+            )
+          ) : (
+            <p className="text-sm text-gray-500">No expenses.</p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
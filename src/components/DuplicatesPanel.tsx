@@ -0,0 +1,98 @@
+import type { DuplicateAction } from "../duplicates";
+
+export type DuplicateItem = {
+  id: string;
+  Date: string;
+  Type: string;
+  Amount: string;
+  Currency: string;
+  Name: string;
+  match: string; // what the row duplicates
+};
+
+type Props = {
+  items: DuplicateItem[];
+  onResolve: (ids: string[], action: DuplicateAction) => void;
+};
+
+const actions: { action: DuplicateAction; label: string; title: string }[] = [
+  { action: "keep", label: "Keep", title: "Not a duplicate" },
+  {
+    action: "merge",
+    label: "Merge",
+    title: "Combine category and notes into one row",
+  },
+  { action: "drop", label: "Drop", title: "Remove this row from the export" },
+];
+
+export default function DuplicatesPanel({ items, onResolve }: Props) {
+  const ids = items.map((x) => x.id);
+  return (
+    <div className="bg-white rounded-2xl shadow p-5">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <h3 className="font-semibold">
+          Possible duplicates{" "}
+          <span className="text-gray-500 font-normal">({items.length})</span>
+        </h3>
+        <div className="flex-1" />
+        <button
+          onClick={() => onResolve(ids, "keep")}
+          className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50"
+        >
+          Keep all
+        </button>
+        <button
+          onClick={() => onResolve(ids, "drop")}
+          className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white"
+        >
+          Drop all
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-2">
+        Rows with the same date, amount, currency, description and balance as
+        another row in this file or in an earlier saved session.
+      </p>
+      <div className="overflow-auto rounded-xl border">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="text-left px-3 py-2">Date</th>
+              <th className="text-right px-3 py-2">Amount</th>
+              <th className="text-left px-3 py-2">Name</th>
+              <th className="text-left px-3 py-2">Duplicate of</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((x) => (
+              <tr key={x.id} className="border-t">
+                <td className="px-3 py-2 whitespace-nowrap">{x.Date}</td>
+                <td className="px-3 py-2 text-right whitespace-nowrap">
+                  {x.Type === "Expense" ? "-" : ""}
+                  {x.Amount} {x.Currency}
+                </td>
+                <td className="px-3 py-2">{x.Name}</td>
+                <td className="px-3 py-2 text-gray-600">{x.match}</td>
+                <td className="px-3 py-2 whitespace-nowrap text-right space-x-1">
+                  {actions.map((a) => (
+                    <button
+                      key={a.action}
+                      onClick={() => onResolve([x.id], a.action)}
+                      title={a.title}
+                      className={
+                        "px-2 py-0.5 rounded text-xs border hover:bg-gray-50 " +
+                        (a.action === "drop" ? "text-red-600" : "")
+                      }
+                    >
+                      {a.label}
+                    </button>
+                  ))}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import {
+  defaultExportProfile,
+  encodings,
+  exportColumns,
+  type Encoding,
+  type ExportColumn,
+  type ExportProfile,
+  type QuoteStyle,
+} from "../csvExport";
+import { dateFormats, type DateFormat } from "../parse";
+
+type Props = {
+  profiles: ExportProfile[];
+  // `renamed` lets the caller keep a renamed profile selected
+  onChange: (
+    next: ExportProfile[],
+    renamed?: { from: string; to: string }
+  ) => void;
+};
+
+const delimiters: { value: string; label: string }[] = [
+  { value: ",", label: "Comma (,)" },
+  { value: ";", label: "Semicolon (;)" },
+  { value: "\t", label: "Tab" },
+];
+
+export default function ExportProfilesPanel({ profiles, onChange }: Props) {
+  const [selected, setSelected] = useState<string>(profiles[0].name);
+  const profile = profiles.find((p) => p.name === selected) || profiles[0];
+  const builtIn = profile.name === defaultExportProfile.name;
+
+  function update(patch: Partial<ExportProfile>) {
+    onChange(
+      profiles.map((p) => (p.name === profile.name ? { ...p, ...patch } : p))
+    );
+  }
+
+  function rename(to: string) {
+    if (!to || profiles.some((p) => p.name === to)) return;
+    onChange(
+      profiles.map((p) => (p.name === profile.name ? { ...p, name: to } : p)),
+      { from: profile.name, to }
+    );
+    setSelected(to);
+  }
+
+  function addProfile() {
+    let n = profiles.length;
+    while (profiles.some((p) => p.name === `Profile ${n}`)) n++;
+    const name = `Profile ${n}`;
+    onChange([...profiles, { ...profile, name }]);
+    setSelected(name);
+  }
+
+  function removeProfile() {
+    onChange(profiles.filter((p) => p.name !== profile.name));
+    setSelected(profiles[0].name);
+  }
+
+  function toggleColumn(c: ExportColumn) {
+    update({
+      columns: profile.columns.includes(c)
+        ? profile.columns.filter((x) => x !== c)
+        : [...profile.columns, c],
+    });
+  }
+
+  function moveColumn(c: ExportColumn, delta: -1 | 1) {
+    const columns = [...profile.columns];
+    const i = columns.indexOf(c);
+    const j = i + delta;
+    if (i < 0 || j < 0 || j >= columns.length) return;
+    [columns[i], columns[j]] = [columns[j], columns[i]];
+    update({ columns });
+  }
+
+  // included columns in output order, then the unused ones
+  const columnList = [
+    ...profile.columns,
+    ...exportColumns.filter((c) => !profile.columns.includes(c)),
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-5">
+      <h2 className="text-base font-semibold mb-3">Export profiles</h2>
+      <p className="text-sm text-gray-600 mb-3">
+        Layout of the downloaded CSV. Pick a profile next to the Download
+        button. The built-in Default profile (headerless, comma separated)
+        cannot be changed; add a profile to customize it.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        <select
+          className="border rounded-lg px-2 py-1"
+          value={profile.name}
+          onChange={(e) => setSelected(e.target.value)}
+        >
+          {profiles.map((p) => (
+            <option key={p.name} value={p.name}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={addProfile}
+          className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white"
+        >
+          New from this
+        </button>
+        <button
+          onClick={removeProfile}
+          disabled={builtIn}
+          className="text-red-500 hover:text-red-700 text-xs disabled:opacity-30"
+        >
+          Delete
+        </button>
+      </div>
+
+      <fieldset disabled={builtIn} className="grid md:grid-cols-2 gap-4">
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-gray-700">Name</span>
+          <input
+            key={profile.name}
+            className="border rounded-lg px-3 py-2"
+            defaultValue={profile.name}
+            onBlur={(e) => rename(e.target.value.trim())}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") rename(e.currentTarget.value.trim());
+            }}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-gray-700">Delimiter</span>
+          <select
+            className="border rounded-lg px-3 py-2"
+            value={profile.delimiter}
+            onChange={(e) => update({ delimiter: e.target.value })}
+          >
+            {delimiters.map((d) => (
+              <option key={d.label} value={d.value}>
+                {d.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-gray-700">Quoting</span>
+          <select
+            className="border rounded-lg px-3 py-2"
+            value={profile.quote}
+            onChange={(e) => update({ quote: e.target.value as QuoteStyle })}
+          >
+            <option value="minimal">Only when needed</option>
+            <option value="all">Quote every field</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-gray-700">Decimal separator</span>
+          <select
+            className="border rounded-lg px-3 py-2"
+            value={profile.decimal}
+            onChange={(e) =>
+              update({ decimal: e.target.value as ExportProfile["decimal"] })
+            }
+          >
+            <option value=".">Dot (1234.56)</option>
+            <option value=",">Comma (1234,56)</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-gray-700">Date format</span>
+          <select
+            className="border rounded-lg px-3 py-2"
+            value={profile.dateFormat}
+            onChange={(e) =>
+              update({ dateFormat: e.target.value as DateFormat })
+            }
+          >
+            {dateFormats.map((f) => (
+              <option key={f} value={f}>
+                {f}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-sm">
+          <span className="text-gray-700">Encoding</span>
+          <select
+            className="border rounded-lg px-3 py-2"
+            value={profile.encoding}
+            onChange={(e) => update({ encoding: e.target.value as Encoding })}
+          >
+            {encodings.map((x) => (
+              <option key={x} value={x}>
+                {x}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex flex-col gap-2 text-sm">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={profile.header}
+              onChange={(e) => update({ header: e.target.checked })}
+            />
+            Header row
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={profile.signed}
+              onChange={(e) => update({ signed: e.target.checked })}
+            />
+            Signed amounts (expenses negative)
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={profile.bom && profile.encoding !== "windows-1252"}
+              disabled={profile.encoding === "windows-1252"}
+              onChange={(e) => update({ bom: e.target.checked })}
+            />
+            Byte order mark (helps Excel detect UTF-8)
+          </label>
+        </div>
+        <div className="text-sm">
+          <span className="text-gray-700">Columns</span>
+          <ul className="mt-1 divide-y border rounded-lg">
+            {columnList.map((c) => {
+              const included = profile.columns.includes(c);
+              return (
+                <li key={c} className="flex items-center gap-2 px-2 py-1">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4"
+                    checked={included}
+                    onChange={() => toggleColumn(c)}
+                  />
+                  <span className={included ? "" : "text-gray-400"}>{c}</span>
+                  <div className="flex-1" />
+                  {included && (
+                    <>
+                      <button
+                        onClick={() => moveColumn(c, -1)}
+                        className="px-1 text-gray-600"
+                        title="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => moveColumn(c, 1)}
+                        className="px-1 text-gray-600"
+                        title="Move down"
+                      >
+                        ↓
+                      </button>
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      </fieldset>
+    </div>
+  );
+}
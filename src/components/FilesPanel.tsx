@@ -0,0 +1,61 @@
+import type { ImportedFile } from "../imports";
+
+type Props = {
+  files: ImportedFile[];
+  sources: string[]; // bank adapters and saved column mappings
+  onChange: (
+    index: number,
+    patch: Partial<Pick<ImportedFile, "source" | "account">>
+  ) => void;
+};
+
+export default function FilesPanel({ files, sources, onChange }: Props) {
+  return (
+    <div className="bg-white rounded-2xl shadow p-5">
+      <h3 className="font-semibold mb-2">
+        Files{" "}
+        <span className="text-gray-500 font-normal">({files.length})</span>
+      </h3>
+      <p className="text-sm text-gray-600 mb-2">
+        Rows of every file are combined into one table. The Account column is
+        set per file; the File column shows where each row came from.
+      </p>
+      <ul className="text-sm divide-y">
+        {files.map((f, i) => (
+          <li key={f.name} className="flex flex-wrap items-center gap-3 py-2">
+            <div className="min-w-0">
+              <div className="font-medium break-all">{f.name}</div>
+              <div className="text-xs text-gray-500">{f.rows.length} rows</div>
+            </div>
+            <div className="flex-1" />
+            <label className="text-xs text-gray-600 flex items-center gap-1">
+              Source
+              <select
+                className="border rounded px-1 py-0.5"
+                value={f.source}
+                onChange={(e) => onChange(i, { source: e.target.value })}
+              >
+                {(sources.includes(f.source)
+                  ? sources
+                  : [f.source, ...sources]
+                ).map((s) => (
+                  <option key={s} value={s}>
+                    {s}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs text-gray-600 flex items-center gap-1">
+              Account
+              <input
+                className="border rounded px-2 py-0.5 w-40"
+                value={f.account}
+                onChange={(e) => onChange(i, { account: e.target.value })}
+              />
+            </label>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
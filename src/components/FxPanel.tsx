@@ -0,0 +1,252 @@
+import { useRef, useState } from "react";
+import {
+  emptyFxTable,
+  fxRate,
+  mergeRates,
+  parseFxCsv,
+  removeCurrency,
+  type FxTable,
+} from "../fx";
+import type { RawRow } from "../parse";
+
+type Props = {
+  table: FxTable;
+  base: string; // "" = no conversion
+  currencies: string[]; // of the loaded rows
+  storageError: string;
+  parseCsv: (text: string) => { headers: string[]; rows: RawRow[] };
+  onBaseChange: (base: string) => void;
+  onChange: (next: FxTable) => void;
+};
+
+export default function FxPanel({
+  table,
+  base,
+  currencies,
+  storageError,
+  parseCsv,
+  onBaseChange,
+  onChange,
+}: Props) {
+  const importRef = useRef<HTMLInputElement | null>(null);
+  const [message, setMessage] = useState<string>("");
+  const [entry, setEntry] = useState({
+    date: new Date().toISOString().slice(0, 10),
+    currency: "",
+    rate: "",
+  });
+
+  const listed = Object.keys(table.rates);
+  const options = Array.from(
+    new Set([base, table.anchor, ...listed, ...currencies].filter(Boolean))
+  ).sort();
+  // loaded currencies that cannot be converted to the base currency
+  const missing = base
+    ? currencies.filter((c) => fxRate(table, c, base, "9999-12-31") === null)
+    : [];
+
+  async function handleImport(file: File) {
+    const { headers, rows } = parseCsv(await file.text());
+    const quotes = parseFxCsv(headers, rows);
+    if (!quotes.length) {
+      setMessage(
+        `No rates found in ${file.name}. Expected a Date column and one column per currency, or Date, Currency, Rate.`
+      );
+    } else {
+      onChange(mergeRates(table, quotes));
+      const found = new Set(quotes.map((q) => q.currency));
+      setMessage(
+        `Imported ${quotes.length} rates for ${found.size} currencies from ${file.name}.`
+      );
+    }
+    if (importRef.current) importRef.current.value = "";
+  }
+
+  function addRate() {
+    const currency = entry.currency.trim().toUpperCase();
+    const rate = Number(entry.rate.replace(",", "."));
+    if (!/^[A-Z]{3}$/.test(currency) || currency === table.anchor) return;
+    if (!(rate > 0) || !entry.date) return;
+    onChange(mergeRates(table, [{ date: entry.date, currency, rate }]));
+    setEntry({ ...entry, rate: "" });
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-5">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <h2 className="text-base font-semibold">Currencies</h2>
+        <div className="flex-1" />
+        <button
+          onClick={() => importRef.current?.click()}
+          className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white"
+        >
+          Import rates CSV
+        </button>
+        <input
+          ref={importRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => e.target.files && handleImport(e.target.files[0])}
+        />
+        <button
+          onClick={() => onChange({ ...emptyFxTable, anchor: table.anchor })}
+          disabled={!table.dates.length}
+          className="text-red-500 hover:text-red-700 text-xs disabled:opacity-30"
+        >
+          Clear rates
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-3">
+        With a base currency, every row gets <code>AmountBase</code> and{" "}
+        <code>FxRate</code> (base units per unit of the row's currency) using
+        the latest rate on or before its date. The dashboard and budgets then
+        total everything in the base currency. Import the ECB history (
+        <code>eurofxref-hist.csv</code>: Date, USD, JPY, …) or a CSV with Date,
+        Currency, Rate columns (dates as YYYY-MM-DD), or add rates below. Rates
+        are quoted against <b>{table.anchor}</b>.
+      </p>
+
+      {(message || storageError) && (
+        <div className="text-sm bg-gray-50 border rounded-lg p-3 mb-3 grid gap-1">
+          {message && <div>{message}</div>}
+          {storageError && <div className="text-red-700">{storageError}</div>}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-4 mb-4">
+        <label className="grid gap-1 text-sm">
+          <span className="text-gray-600">Base currency</span>
+          <select
+            className="border rounded-lg px-3 py-2"
+            value={base}
+            onChange={(e) => onBaseChange(e.target.value)}
+          >
+            <option value="">None (no conversion)</option>
+            {options.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1 text-sm">
+          <span className="text-gray-600">Rates quoted against</span>
+          <input
+            className="border rounded-lg px-3 py-2 uppercase"
+            value={table.anchor}
+            disabled={table.dates.length > 0}
+            title={
+              table.dates.length
+                ? "Clear the rates to change the quote currency"
+                : ""
+            }
+            onChange={(e) =>
+              onChange({
+                ...table,
+                anchor: e.target.value.trim().toUpperCase().slice(0, 3),
+              })
+            }
+          />
+        </label>
+      </div>
+
+      {missing.length > 0 && (
+        <div className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3 mb-3">
+          No rate to convert {missing.join(", ")} to {base}; those rows have no
+          AmountBase and stay in their own currency on the dashboard.
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2 mb-4 text-sm">
+        <label className="grid gap-1">
+          <span className="text-gray-600">Date</span>
+          <input
+            type="date"
+            className="border rounded-lg px-2 py-1"
+            value={entry.date}
+            onChange={(e) => setEntry({ ...entry, date: e.target.value })}
+          />
+        </label>
+        <span className="pb-1.5">1 {table.anchor} =</span>
+        <label className="grid gap-1">
+          <span className="text-gray-600">Rate</span>
+          <input
+            className="border rounded-lg px-2 py-1 w-28"
+            value={entry.rate}
+            placeholder="1.0850"
+            onChange={(e) => setEntry({ ...entry, rate: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addRate();
+            }}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-gray-600">Currency</span>
+          <input
+            className="border rounded-lg px-2 py-1 w-20 uppercase"
+            value={entry.currency}
+            placeholder="USD"
+            onChange={(e) => setEntry({ ...entry, currency: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") addRate();
+            }}
+          />
+        </label>
+        <button
+          onClick={addRate}
+          className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white"
+        >
+          Add rate
+        </button>
+      </div>
+
+      {listed.length > 0 && (
+        <div className="overflow-auto rounded-xl border">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                {["Currency", "Rates", "From", "To", "Latest", ""].map(
+                  (h, i) => (
+                    <th
+                      key={i}
+                      className="text-left font-semibold px-3 py-2 whitespace-nowrap"
+                    >
+                      {h}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {listed.map((c) => {
+                const days = table.rates[c]
+                  .map((r, i) => ({ date: table.dates[i], rate: r }))
+                  .filter((x) => x.rate != null);
+                const last = days[days.length - 1];
+                return (
+                  <tr key={c} className="border-t">
+                    <td className="px-3 py-1.5 font-medium">{c}</td>
+                    <td className="px-3 py-1.5">{days.length}</td>
+                    <td className="px-3 py-1.5">{days[0]?.date}</td>
+                    <td className="px-3 py-1.5">{last?.date}</td>
+                    <td className="px-3 py-1.5 tabular-nums">{last?.rate}</td>
+                    <td className="px-3 py-1.5">
+                      <button
+                        onClick={() => onChange(removeCurrency(table, c))}
+                        className="text-red-500 hover:text-red-700 text-xs"
+                        title={`Remove ${c} rates`}
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import type { History } from "../history";
+
+type Props = {
+  history: History<unknown>;
+  onUndo: () => void;
+  onRedo: () => void;
+};
+
+export default function HistoryPanel({ history, onUndo, onRedo }: Props) {
+  const past = [...history.past].reverse();
+  return (
+    <div className="bg-white rounded-2xl shadow p-5">
+      <div className="flex items-center gap-2 mb-2">
+        <h3 className="font-semibold">History</h3>
+        <div className="flex-1" />
+        <button
+          onClick={onUndo}
+          disabled={!history.past.length}
+          className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white disabled:opacity-40"
+          title="Undo (Ctrl+Z)"
+        >
+          Undo
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={!history.future.length}
+          className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50 disabled:opacity-40"
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          Redo
+        </button>
+      </div>
+      <ul className="text-sm divide-y">
+        {/* undone steps, latest undo nearest the current state */}
+        {[...history.future].reverse().map((e, i) => (
+          <li key={`f${i}`} className="py-1.5 text-gray-400 line-through">
+            <span className="font-medium">{e.label}</span> — {e.detail}
+          </li>
+        ))}
+        {past.map((e, i) => (
+          <li key={`p${i}`} className="py-1.5">
+            <span className="font-medium">{e.label}</span>{" "}
+            <span className="text-gray-600">— {e.detail}</span>
+            {i === 0 && (
+              <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-indigo-100 text-indigo-800">
+                current
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import type { ChunkState, ChunkStatus } from "../llm";
+
+type Props = {
+  chunks: ChunkStatus[];
+  running: boolean;
+  onCancel: () => void;
+  onClose: () => void;
+};
+
+const stateClass: Record<ChunkState, string> = {
+  waiting: "bg-gray-100 text-gray-600",
+  running: "bg-indigo-100 text-indigo-800 animate-pulse",
+  retrying: "bg-amber-100 text-amber-800",
+  done: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+  cancelled: "bg-gray-200 text-gray-500 line-through",
+};
+
+const finished = (s: ChunkState) =>
+  s === "done" || s === "failed" || s === "cancelled";
+
+export default function LlmProgress({
+  chunks,
+  running,
+  onCancel,
+  onClose,
+}: Props) {
+  const total = chunks.reduce((n, c) => n + c.names.length, 0);
+  const done = chunks
+    .filter((c) => finished(c.state))
+    .reduce((n, c) => n + c.names.length, 0);
+  const count = (s: ChunkState) => chunks.filter((c) => c.state === s).length;
+  const heuristic = chunks.reduce((n, c) => n + c.fallback.length, 0);
+
+  return (
+    <div className="text-sm bg-indigo-50 border border-indigo-200 rounded-lg p-3 grid gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span>
+          {running ? "Classifying with LLM" : "LLM classification"}:{" "}
+          <b>{done}</b> of {total} names
+          {count("failed") > 0 && (
+            <span className="text-red-700">
+              {" "}
+              • {count("failed")} failed{" "}
+              {count("failed") === 1 ? "chunk" : "chunks"}
+            </span>
+          )}
+          {heuristic > 0 && ` • ${heuristic} by heuristics`}
+          {count("cancelled") > 0 && ` • ${count("cancelled")} cancelled`}
+        </span>
+        <div className="flex-1" />
+        {running ? (
+          <button
+            onClick={onCancel}
+            className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={onClose}
+            className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50"
+          >
+            Close
+          </button>
+        )}
+      </div>
+      <div className="h-2 rounded-full bg-white overflow-hidden">
+        <div
+          className="h-full bg-indigo-500 transition-all"
+          style={{ width: `${total ? (done / total) * 100 : 0}%` }}
+        />
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {chunks.map((c, i) => (
+          <span
+            key={i}
+            className={`px-2 py-0.5 rounded-full text-xs ${stateClass[c.state]}`}
+            title={
+              `${c.names.length} names, ${c.attempts} ${
+                c.attempts === 1 ? "attempt" : "attempts"
+              }` +
+              (c.fallback.length
+                ? `, ${c.fallback.length} by heuristics`
+                : "") +
+              (c.error ? `\n${c.error}` : "")
+            }
+          >
+            {i + 1}: {c.state}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useState } from "react";
+import {
+  authStyles,
+  defaultProviders,
+  findProvider,
+  isLocalUrl,
+  testConnection,
+  type AuthStyle,
+  type LlmProvider,
+} from "../providers";
+
+type Props = {
+  providers: LlmProvider[];
+  providerId: string;
+  model: string;
+  apiKey: string;
+  onSelect: (providerId: string, model: string) => void;
+  onApiKey: (apiKey: string) => void;
+  onChangeProviders: (next: LlmProvider[]) => void;
+};
+
+export default function LlmSettingsPanel({
+  providers,
+  providerId,
+  model,
+  apiKey,
+  onSelect,
+  onApiKey,
+  onChangeProviders,
+}: Props) {
+  const provider = findProvider(providers, providerId);
+  const [modelsText, setModelsText] = useState<string>(
+    provider.models.join(", ")
+  );
+  const [testing, setTesting] = useState<boolean>(false);
+  const [result, setResult] = useState<{ ok: boolean; message: string } | null>(
+    null
+  );
+
+  function update(patch: Partial<LlmProvider>) {
+    onChangeProviders(
+      providers.map((p) => (p.id === provider.id ? { ...p, ...patch } : p))
+    );
+    setResult(null);
+  }
+
+  // keeps the chosen model when the new provider lists it
+  function selectProvider(id: string) {
+    const next = findProvider(providers, id);
+    onSelect(id, next.models.includes(model) ? model : (next.models[0] ?? ""));
+  }
+
+  function saveModels(text: string) {
+    const models = Array.from(
+      new Set(
+        text
+          .split(",")
+          .map((m) => m.trim())
+          .filter(Boolean)
+      )
+    );
+    if (!models.length) return;
+    update({ models });
+    setModelsText(models.join(", "));
+    if (!models.includes(model)) onSelect(provider.id, models[0]);
+  }
+
+  function reset() {
+    const original = defaultProviders.find((p) => p.id === provider.id);
+    if (!original) return;
+    update(original);
+    setModelsText(original.models.join(", "));
+    if (!original.models.includes(model))
+      onSelect(provider.id, original.models[0]);
+  }
+
+  async function runTest() {
+    setTesting(true);
+    setResult(await testConnection(provider, apiKey, model));
+    setTesting(false);
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-5">
+      <h2 className="text-base font-semibold mb-3">LLM</h2>
+      <div className="grid md:grid-cols-2 gap-4">
+        <label className="grid gap-1 text-sm">
+          <span className="text-gray-600">Provider</span>
+          <select
+            className="border rounded-lg px-3 py-2"
+            value={provider.id}
+            onChange={(e) => selectProvider(e.target.value)}
+          >
+            {providers.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.label}
+              </option>
+            ))}
+          </select>
+          <span className="text-xs text-gray-500">
+            {isLocalUrl(provider.baseUrl)
+              ? "Runs on this machine: transaction names never leave it."
+              : "Merchant names are sent to this service."}
+          </span>
+        </label>
+        <label className="grid gap-1 text-sm">
+          <span className="text-gray-600">
+            {provider.api === "azure" ? "Deployment" : "Model"}
+          </span>
+          <select
+            className="border rounded-lg px-3 py-2"
+            value={model}
+            onChange={(e) => onSelect(provider.id, e.target.value)}
+          >
+            {!provider.models.includes(model) && (
+              <option value={model}>{model}</option>
+            )}
+            {provider.models.map((m) => (
+              <option key={m} value={m}>
+                {m}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1 text-sm">
+          <span className="text-gray-600">API key</span>
+          <input
+            type="password"
+            className="border rounded-lg px-3 py-2 disabled:bg-gray-50"
+            value={apiKey}
+            onChange={(e) => onApiKey(e.target.value)}
+            disabled={provider.auth === "none"}
+            placeholder={
+              provider.auth === "none" ? "Not needed" : "Key for this provider"
+            }
+          />
+          <span className="text-xs text-gray-500">
+            Stored locally in your browser. For prototypes only—avoid exposing
+            secrets in client apps.
+          </span>
+        </label>
+        <label className="grid gap-1 text-sm">
+          <span className="text-gray-600">
+            {provider.api === "azure" ? "Deployments" : "Models"} (comma
+            separated)
+          </span>
+          <input
+            className="border rounded-lg px-3 py-2"
+            value={modelsText}
+            onChange={(e) => setModelsText(e.target.value)}
+            onBlur={(e) => saveModels(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") saveModels(e.currentTarget.value);
+            }}
+          />
+        </label>
+        <label className="grid gap-1 text-sm md:col-span-2">
+          <span className="text-gray-600">Base URL</span>
+          <input
+            className="border rounded-lg px-3 py-2"
+            value={provider.baseUrl}
+            onChange={(e) => update({ baseUrl: e.target.value.trim() })}
+          />
+          <span className="text-xs text-gray-500">
+            {provider.api === "anthropic"
+              ? "Requests go to {base URL}/messages."
+              : provider.api === "azure"
+                ? "Requests go to {base URL}/{deployment}/chat/completions."
+                : "Requests go to {base URL}/chat/completions."}
+          </span>
+        </label>
+        <label className="grid gap-1 text-sm">
+          <span className="text-gray-600">Auth header</span>
+          <select
+            className="border rounded-lg px-3 py-2"
+            value={provider.auth}
+            onChange={(e) => update({ auth: e.target.value as AuthStyle })}
+          >
+            {authStyles.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {provider.api === "azure" ? (
+          <label className="grid gap-1 text-sm">
+            <span className="text-gray-600">API version</span>
+            <input
+              className="border rounded-lg px-3 py-2"
+              value={provider.apiVersion}
+              onChange={(e) => update({ apiVersion: e.target.value.trim() })}
+            />
+          </label>
+        ) : (
+          <div />
+        )}
+        {provider.api !== "anthropic" && (
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={provider.structured}
+              onChange={(e) => update({ structured: e.target.checked })}
+            />
+            Structured output (JSON schema); turn off for servers that reject{" "}
+            <code className="px-1 rounded bg-gray-100">response_format</code>
+          </label>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 mt-4 text-sm">
+        <button
+          onClick={runTest}
+          disabled={testing || (provider.auth !== "none" && !apiKey)}
+          className="px-3 py-2 rounded-lg bg-gray-900 text-white disabled:opacity-40"
+        >
+          {testing ? "Testing…" : "Test connection"}
+        </button>
+        <button
+          onClick={reset}
+          className="px-3 py-2 rounded-lg border bg-white hover:bg-gray-50"
+        >
+          Reset {provider.label}
+        </button>
+        {result && (
+          <span className={result.ok ? "text-green-700" : "text-red-700"}>
+            {result.ok ? "✓" : "✕"} {result.message}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
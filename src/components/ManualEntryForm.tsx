@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { manualProblem, manualTypes, type ManualRow } from "../manual";
+import { orderedCategories, type Taxonomy } from "../taxonomy";
+
+type Props = {
+  row: Omit<ManualRow, "id">; // the row being edited, or the new row's defaults
+  editing: boolean;
+  taxonomy: Taxonomy;
+  accounts: string[];
+  currencies: string[];
+  onSave: (row: Omit<ManualRow, "id">) => void;
+  onCancel: () => void;
+};
+
+export default function ManualEntryForm({
+  row: initial,
+  editing,
+  taxonomy,
+  accounts,
+  currencies,
+  onSave,
+  onCancel,
+}: Props) {
+  const [row, setRow] = useState(initial);
+  const set = (patch: Partial<ManualRow>) => setRow({ ...row, ...patch });
+  const problem = manualProblem(row);
+
+  return (
+    <form
+      className="text-sm bg-indigo-50 border border-indigo-200 rounded-lg p-3 grid gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!problem) onSave({ ...row, Name: row.Name.trim() });
+      }}
+    >
+      <div className="font-medium">
+        {editing ? "Edit manual transaction" : "Add transaction"}
+      </div>
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="grid gap-1">
+          <span className="text-gray-600">Date</span>
+          <input
+            type="date"
+            className="border rounded-lg px-2 py-1"
+            value={row.Date}
+            onChange={(e) => set({ Date: e.target.value })}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-gray-600">Type</span>
+          <select
+            className="border rounded-lg px-2 py-1"
+            value={row.Type}
+            onChange={(e) => set({ Type: e.target.value })}
+          >
+            {manualTypes.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1">
+          <span className="text-gray-600">Amount</span>
+          <input
+            className="border rounded-lg px-2 py-1 w-28 tabular-nums"
+            value={row.Amount}
+            placeholder="0.00"
+            inputMode="decimal"
+            onChange={(e) => set({ Amount: e.target.value.replace(",", ".") })}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-gray-600">Currency</span>
+          <input
+            className="border rounded-lg px-2 py-1 w-20 uppercase"
+            value={row.Currency}
+            list="manual-currencies"
+            maxLength={3}
+            onChange={(e) => set({ Currency: e.target.value.toUpperCase() })}
+          />
+          <datalist id="manual-currencies">
+            {currencies.map((c) => (
+              <option key={c} value={c} />
+            ))}
+          </datalist>
+        </label>
+        <label className="grid gap-1">
+          <span className="text-gray-600">Category</span>
+          <select
+            className="border rounded-lg px-2 py-1"
+            value={row.Category}
+            onChange={(e) => set({ Category: e.target.value })}
+          >
+            {!row.Category && <option value="">Pick…</option>}
+            {orderedCategories(taxonomy).map((c) => (
+              <option key={c.name} value={c.name}>
+                {c.parent ? `› ${c.name}` : c.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1">
+          <span className="text-gray-600">Name</span>
+          <input
+            className="border rounded-lg px-2 py-1 w-48"
+            value={row.Name}
+            placeholder="Merchant or payee"
+            onChange={(e) => set({ Name: e.target.value })}
+          />
+        </label>
+        <label className="grid gap-1">
+          <span className="text-gray-600">Account</span>
+          <input
+            className="border rounded-lg px-2 py-1 w-36"
+            value={row.Account}
+            list="manual-accounts"
+            onChange={(e) => set({ Account: e.target.value })}
+          />
+          <datalist id="manual-accounts">
+            {accounts.map((a) => (
+              <option key={a} value={a} />
+            ))}
+          </datalist>
+        </label>
+        <label className="grid gap-1">
+          <span className="text-gray-600">Notes</span>
+          <input
+            className="border rounded-lg px-2 py-1 w-48"
+            value={row.Notes}
+            onChange={(e) => set({ Notes: e.target.value })}
+          />
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        {problem && <span className="text-red-700">{problem}</span>}
+        <div className="flex-1" />
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!!problem}
+          className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white disabled:opacity-40"
+        >
+          {editing ? "Save" : "Add"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,273 @@
+import { useMemo, useState } from "react";
+import {
+  mappedFields,
+  profileAdapter,
+  type MappedField,
+  type MappingProfile,
+  type SignConvention,
+} from "../mapping";
+import {
+  dateFormats,
+  type DateFormat,
+  type DecimalStyle,
+  type RawRow,
+} from "../parse";
+
+type Props = {
+  initial: MappingProfile;
+  sampleRows: RawRow[];
+  takenNames: string[];
+  onSave: (profile: MappingProfile) => void;
+  onCancel: () => void;
+};
+
+// Shown when an upload matches no bank adapter and no saved profile.
+export default function MappingWizard({
+  initial,
+  sampleRows,
+  takenNames,
+  onSave,
+  onCancel,
+}: Props) {
+  const [profile, setProfile] = useState<MappingProfile>(initial);
+  const headers = profile.headers;
+
+  const update = (patch: Partial<MappingProfile>) =>
+    setProfile((p) => ({ ...p, ...patch }));
+  const setColumn = (field: MappedField, header: string) =>
+    setProfile((p) => ({
+      ...p,
+      columns: { ...p.columns, [field]: header || undefined },
+    }));
+
+  const preview = useMemo(() => {
+    const adapter = profileAdapter(profile);
+    return sampleRows.map((r) => adapter.normalize(r, ""));
+  }, [profile, sampleRows]);
+
+  const name = profile.name.trim();
+  const problems = [
+    !name && "Give the profile a name.",
+    takenNames.includes(name) && `"${name}" is already used.`,
+    !profile.columns.Date && "Map a Date column.",
+    !profile.columns.Name && "Map a Name column.",
+    profile.sign === "debitCredit"
+      ? (!profile.debitColumn || !profile.creditColumn) &&
+        "Pick both Debit and Credit columns."
+      : !profile.columns.Amount && "Map an Amount column.",
+    preview.length > 0 &&
+      preview.every((r) => !r.Date) &&
+      "No sample date could be read; check the date format.",
+  ].filter(Boolean) as string[];
+
+  const headerSelect = (value: string, onChange: (h: string) => void) => (
+    <select
+      className="border rounded-lg px-2 py-1"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      <option value="">—</option>
+      {headers.map((h) => (
+        <option key={h} value={h}>
+          {h}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-5 flex flex-col gap-4">
+      <div>
+        <h2 className="text-base font-semibold">Map CSV columns</h2>
+        <p className="text-sm text-gray-600">
+          This file doesn't match a known bank format. Map its columns once; the
+          mapping is saved and reused for files with the same headers.
+        </p>
+      </div>
+
+      <div className="overflow-auto rounded-xl border">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-100">
+            <tr>
+              {headers.map((h) => (
+                <th key={h} className="text-left font-semibold px-2 py-1">
+                  {h}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sampleRows.map((r, i) => (
+              <tr key={i} className={i % 2 ? "bg-white" : "bg-gray-50"}>
+                {headers.map((h) => (
+                  <td key={h} className="px-2 py-1 whitespace-nowrap">
+                    {r[h]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid md:grid-cols-3 gap-3 text-sm">
+        {mappedFields.map((f) => (
+          <label key={f} className="grid gap-1">
+            <span className="text-gray-600">
+              {f}
+              {f === "Amount" && profile.sign === "debitCredit" && " (unused)"}
+            </span>
+            {headerSelect(profile.columns[f] || "", (h) => setColumn(f, h))}
+          </label>
+        ))}
+
+        <label className="grid gap-1">
+          <span className="text-gray-600">Sign convention</span>
+          <select
+            className="border rounded-lg px-2 py-1"
+            value={profile.sign}
+            onChange={(e) => update({ sign: e.target.value as SignConvention })}
+          >
+            <option value="signed">
+              Amount is signed (negative = expense)
+            </option>
+            <option value="inverted">
+              Amount is inverted (positive = expense)
+            </option>
+            <option value="debitCredit">Separate debit / credit columns</option>
+          </select>
+        </label>
+        {profile.sign === "debitCredit" && (
+          <>
+            <label className="grid gap-1">
+              <span className="text-gray-600">Debit column (money out)</span>
+              {headerSelect(profile.debitColumn, (h) =>
+                update({ debitColumn: h })
+              )}
+            </label>
+            <label className="grid gap-1">
+              <span className="text-gray-600">Credit column (money in)</span>
+              {headerSelect(profile.creditColumn, (h) =>
+                update({ creditColumn: h })
+              )}
+            </label>
+          </>
+        )}
+
+        <label className="grid gap-1">
+          <span className="text-gray-600">Date format</span>
+          <select
+            className="border rounded-lg px-2 py-1"
+            value={profile.dateFormat}
+            onChange={(e) =>
+              update({ dateFormat: e.target.value as DateFormat })
+            }
+          >
+            {dateFormats.map((f) => (
+              <option key={f}>{f}</option>
+            ))}
+          </select>
+        </label>
+        <label className="grid gap-1">
+          <span className="text-gray-600">Decimal style</span>
+          <select
+            className="border rounded-lg px-2 py-1"
+            value={profile.decimal}
+            onChange={(e) =>
+              update({ decimal: e.target.value as DecimalStyle })
+            }
+          >
+            <option value="auto">Auto-detect</option>
+            <option value="dot">1,234.56</option>
+            <option value="comma">1.234,56</option>
+          </select>
+        </label>
+        <label className="grid gap-1">
+          <span className="text-gray-600">Currency (if no column)</span>
+          <input
+            className="border rounded-lg px-2 py-1"
+            value={profile.defaultCurrency}
+            onChange={(e) =>
+              update({ defaultCurrency: e.target.value.toUpperCase() })
+            }
+          />
+        </label>
+        {profile.columns.State && (
+          <label className="grid gap-1">
+            <span className="text-gray-600">State value meaning completed</span>
+            <input
+              className="border rounded-lg px-2 py-1"
+              value={profile.completedValue}
+              onChange={(e) => update({ completedValue: e.target.value })}
+            />
+          </label>
+        )}
+        <label className="grid gap-1">
+          <span className="text-gray-600">Profile name</span>
+          <input
+            className="border rounded-lg px-2 py-1"
+            value={profile.name}
+            onChange={(e) => update({ name: e.target.value })}
+          />
+        </label>
+      </div>
+
+      <div className="overflow-auto rounded-xl border">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-100">
+            <tr>
+              {["Date", "Amount", "Currency", "Name", "State", "Fee"].map(
+                (h) => (
+                  <th key={h} className="text-left font-semibold px-2 py-1">
+                    {h}
+                  </th>
+                )
+              )}
+            </tr>
+          </thead>
+          <tbody>
+            {preview.map((r, i) => (
+              <tr
+                key={i}
+                className={r.Amount < 0 ? "bg-red-50" : "bg-green-50"}
+              >
+                <td className="px-2 py-1">
+                  {r.Date || <span className="text-red-600">invalid</span>}
+                </td>
+                <td className="px-2 py-1">{r.Amount.toFixed(2)}</td>
+                <td className="px-2 py-1">{r.Currency}</td>
+                <td className="px-2 py-1">{r.Name}</td>
+                <td className="px-2 py-1">{r.State}</td>
+                <td className="px-2 py-1">{r.Fee.toFixed(2)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {problems.length > 0 && (
+        <div className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+          {problems.map((p) => (
+            <div key={p}>• {p}</div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2 justify-end">
+        <button
+          onClick={onCancel}
+          className="px-3 py-2 rounded-lg border bg-white hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave({ ...profile, name })}
+          disabled={problems.length > 0}
+          className="px-3 py-2 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          Save mapping &amp; load
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { Fragment, useState } from "react";
+import { seriesRule, type RecurringSeries } from "../recurring";
+import type { CategoryRule } from "../rules";
+import {
+  categoryBadgeClass,
+  categoryPath,
+  orderedCategories,
+  type Taxonomy,
+} from "../taxonomy";
+
+type Props = {
+  series: RecurringSeries[];
+  taxonomy: Taxonomy;
+  rules: CategoryRule[]; // a merchant rule for a series marks it as tagged
+  onTag: (s: RecurringSeries, category: string, notes: string) => void;
+  onShowRows: (s: RecurringSeries) => void;
+};
+
+const money = (n: number) => n.toFixed(2);
+
+export default function RecurringPanel({
+  series,
+  taxonomy,
+  rules,
+  onTag,
+  onShowRows,
+}: Props) {
+  const [tagging, setTagging] = useState<{
+    key: string;
+    category: string;
+    notes: string;
+  } | null>(null);
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-5">
+      <h3 className="font-semibold mb-1">Recurring payments</h3>
+      <p className="text-xs text-gray-500 mb-3">
+        Merchants charged weekly, monthly or yearly with similar amounts.
+        Tagging a series sets the category and notes of all its rows and saves a
+        merchant rule so future uploads get them too.
+      </p>
+      {!series.length ? (
+        <p className="text-sm text-gray-600">No recurring payments found.</p>
+      ) : (
+        <div className="overflow-auto rounded-xl border">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                {[
+                  "Merchant",
+                  "Cadence",
+                  "Average",
+                  "Last charge",
+                  "Next charge",
+                  "Price changes",
+                  "Category",
+                  "",
+                ].map((h, i) => (
+                  <th
+                    key={i}
+                    className="text-left font-semibold px-3 py-2 whitespace-nowrap"
+                  >
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {series.map((s) => {
+                const rule = seriesRule(rules, s);
+                const open = tagging?.key === s.key;
+                return (
+                  <Fragment key={s.key}>
+                    <tr className="border-t">
+                      <td className="px-3 py-2">
+                        <button
+                          onClick={() => onShowRows(s)}
+                          className="text-left hover:underline"
+                          title="Show these rows in the table"
+                        >
+                          {s.name}
+                        </button>
+                        <span className="block text-xs text-gray-500">
+                          {s.count}{" "}
+                          {s.type === "Income" ? "payments" : "charges"}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 capitalize">{s.cadence}</td>
+                      <td className="px-3 py-2 whitespace-nowrap tabular-nums">
+                        {money(s.average)} {s.currency}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">{s.last}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{s.next}</td>
+                      <td className="px-3 py-2 text-xs">
+                        {s.priceChanges.length ? (
+                          <ul>
+                            {s.priceChanges.slice(-3).map((c) => (
+                              <li
+                                key={c.date}
+                                className={
+                                  c.to > c.from
+                                    ? "text-red-700"
+                                    : "text-green-700"
+                                }
+                              >
+                                {c.date}: {money(c.from)} → {money(c.to)}
+                              </li>
+                            ))}
+                            {s.priceChanges.length > 3 && (
+                              <li className="text-gray-500">
+                                +{s.priceChanges.length - 3} earlier
+                              </li>
+                            )}
+                          </ul>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <span
+                          className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${categoryBadgeClass(
+                            taxonomy,
+                            rule?.category ?? s.category
+                          )}`}
+                        >
+                          {categoryPath(taxonomy, rule?.category ?? s.category)}
+                        </span>
+                        {rule && (
+                          <span className="block text-xs text-gray-500">
+                            Tagged{rule.notes && `: ${rule.notes}`}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        <button
+                          onClick={() =>
+                            setTagging(
+                              open
+                                ? null
+                                : {
+                                    key: s.key,
+                                    category: rule?.category ?? s.category,
+                                    notes: rule?.notes ?? "",
+                                  }
+                            )
+                          }
+                          className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50"
+                        >
+                          {rule ? "Retag" : "Tag"}
+                        </button>
+                      </td>
+                    </tr>
+                    {open && tagging && (
+                      <tr className="bg-indigo-50">
+                        <td colSpan={8} className="px-3 py-2">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <select
+                              className="border rounded-lg px-2 py-1"
+                              value={tagging.category}
+                              onChange={(e) =>
+                                setTagging({
+                                  ...tagging,
+                                  category: e.target.value,
+                                })
+                              }
+                            >
+                              {orderedCategories(taxonomy).map((c) => (
+                                <option key={c.name} value={c.name}>
+                                  {c.parent ? `› ${c.name}` : c.name}
+                                </option>
+                              ))}
+                            </select>
+                            <input
+                              className="border rounded-lg px-2 py-1 flex-1 min-w-40"
+                              value={tagging.notes}
+                              placeholder="Notes, e.g. Family plan"
+                              onChange={(e) =>
+                                setTagging({
+                                  ...tagging,
+                                  notes: e.target.value,
+                                })
+                              }
+                            />
+                            <button
+                              onClick={() => {
+                                onTag(
+                                  s,
+                                  tagging.category,
+                                  tagging.notes.trim()
+                                );
+                                setTagging(null);
+                              }}
+                              className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white"
+                            >
+                              Apply to {s.count} rows
+                            </button>
+                            <button
+                              onClick={() => setTagging(null)}
+                              className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+import { useRef, useState } from "react";
+import { downloadFile } from "../download";
+import {
+  newRule,
+  parseRulesJson,
+  ruleError,
+  rulesToJson,
+  type CategoryRule,
+  type RuleMatch,
+} from "../rules";
+
+type Props = {
+  rules: CategoryRule[];
+  categories: string[];
+  onChange: (rules: CategoryRule[]) => void;
+};
+
+const amountValue = (x: number | null) => (x === null ? "" : String(x));
+const parseAmountInput = (s: string) =>
+  s.trim() === "" || isNaN(Number(s)) ? null : Number(s);
+
+export default function RulesPanel({ rules, categories, onChange }: Props) {
+  const importRef = useRef<HTMLInputElement | null>(null);
+  const [importError, setImportError] = useState<string>("");
+
+  const update = (id: string, patch: Partial<CategoryRule>) =>
+    onChange(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  async function handleImport(file: File) {
+    try {
+      const imported = parseRulesJson(await file.text());
+      onChange([...rules, ...imported]);
+      setImportError("");
+    } catch (e) {
+      setImportError(e instanceof Error ? e.message : String(e));
+    }
+    if (importRef.current) importRef.current.value = "";
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-5">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <h2 className="text-base font-semibold">Category rules</h2>
+        <div className="flex-1" />
+        <button
+          onClick={() =>
+            onChange([
+              ...rules,
+              newRule({ category: categories[0] || "OtherExpenses" }),
+            ])
+          }
+          className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white"
+        >
+          Add rule
+        </button>
+        <button
+          onClick={() => importRef.current?.click()}
+          className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50"
+        >
+          Import JSON
+        </button>
+        <input
+          ref={importRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => e.target.files && handleImport(e.target.files[0])}
+        />
+        <button
+          onClick={() =>
+            downloadFile(
+              "fintrack_rules.json",
+              rulesToJson(rules),
+              "application/json"
+            )
+          }
+          disabled={!rules.length}
+          className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50 disabled:opacity-40"
+        >
+          Export JSON
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-3">
+        Evaluated top to bottom before LLM results and the built-in heuristics;
+        the first matching rule sets the Category (and Notes, if given). Amount
+        bounds apply to the absolute amount. "merchant" rules compare the
+        normalized merchant name (no card suffixes, dates or store numbers) and
+        are learned from inline Category edits.
+      </p>
+      {importError && (
+        <div className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3 mb-3">
+          • Import failed: {importError}
+        </div>
+      )}
+
+      {rules.length > 0 && (
+        <div className="overflow-auto rounded-xl border">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-100">
+              <tr>
+                {[
+                  "On",
+                  "Match",
+                  "Pattern",
+                  "Min",
+                  "Max",
+                  "Type",
+                  "Currency",
+                  "Category",
+                  "Notes",
+                  "",
+                ].map((h, i) => (
+                  <th
+                    key={i}
+                    className="text-left font-semibold px-2 py-2 whitespace-nowrap"
+                  >
+                    {h}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule, i) => {
+                const error = ruleError(rule);
+                return (
+                  <tr
+                    key={rule.id}
+                    className={i % 2 ? "bg-white" : "bg-gray-50"}
+                  >
+                    <td className="px-2 py-1">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4"
+                        checked={rule.enabled}
+                        onChange={(e) =>
+                          update(rule.id, { enabled: e.target.checked })
+                        }
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <select
+                        className="border rounded px-1 py-1"
+                        value={rule.match}
+                        onChange={(e) =>
+                          update(rule.id, {
+                            match: e.target.value as RuleMatch,
+                          })
+                        }
+                      >
+                        <option value="contains">contains</option>
+                        <option value="exact">exact</option>
+                        <option value="regex">regex</option>
+                        <option value="merchant">merchant</option>
+                      </select>
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        className={
+                          "border rounded px-2 py-1 w-40 " +
+                          (error ? "border-red-400" : "")
+                        }
+                        value={rule.pattern}
+                        title={error}
+                        onChange={(e) =>
+                          update(rule.id, { pattern: e.target.value })
+                        }
+                      />
+                      {rule.learned && (
+                        <span className="ml-1 inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-800">
+                          learned
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        className="border rounded px-2 py-1 w-20"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={amountValue(rule.minAmount)}
+                        onChange={(e) =>
+                          update(rule.id, {
+                            minAmount: parseAmountInput(e.target.value),
+                          })
+                        }
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        className="border rounded px-2 py-1 w-20"
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={amountValue(rule.maxAmount)}
+                        onChange={(e) =>
+                          update(rule.id, {
+                            maxAmount: parseAmountInput(e.target.value),
+                          })
+                        }
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <select
+                        className="border rounded px-1 py-1"
+                        value={rule.type}
+                        onChange={(e) =>
+                          update(rule.id, {
+                            type: e.target.value as CategoryRule["type"],
+                          })
+                        }
+                      >
+                        <option value="">Any</option>
+                        <option value="Expense">Expense</option>
+                        <option value="Income">Income</option>
+                      </select>
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        className="border rounded px-2 py-1 w-16"
+                        placeholder="Any"
+                        value={rule.currency}
+                        onChange={(e) =>
+                          update(rule.id, {
+                            currency: e.target.value.toUpperCase(),
+                          })
+                        }
+                      />
+                    </td>
+                    <td className="px-2 py-1">
+                      <select
+                        className="border rounded px-1 py-1"
+                        value={rule.category}
+                        onChange={(e) =>
+                          update(rule.id, { category: e.target.value })
+                        }
+                      >
+                        {!categories.includes(rule.category) && (
+                          <option value={rule.category}>{rule.category}</option>
+                        )}
+                        {categories.map((c) => (
+                          <option key={c} value={c}>
+                            {c}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-2 py-1">
+                      <input
+                        className="border rounded px-2 py-1 w-32"
+                        value={rule.notes}
+                        onChange={(e) =>
+                          update(rule.id, { notes: e.target.value })
+                        }
+                      />
+                    </td>
+                    <td className="px-2 py-1 whitespace-nowrap">
+                      <button
+                        onClick={() => move(i, -1)}
+                        disabled={i === 0}
+                        className="px-1 text-gray-600 disabled:opacity-30"
+                        title="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => move(i, 1)}
+                        disabled={i === rules.length - 1}
+                        className="px-1 text-gray-600 disabled:opacity-30"
+                        title="Move down"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        onClick={() =>
+                          onChange(rules.filter((r) => r.id !== rule.id))
+                        }
+                        className="px-1 text-red-500 hover:text-red-700 text-xs"
+                        title="Remove rule"
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from "react";
+import type { SessionSummary } from "../session";
+
+type Props = {
+  sessions: SessionSummary[];
+  currentHash: string | null;
+  onResume: (hash: string) => void;
+  onRename: (hash: string, name: string) => void;
+  onDiscard: (hash: string) => void;
+};
+
+const when = (iso: string) => iso.slice(0, 16).replace("T", " ");
+
+export default function SessionsPanel({
+  sessions,
+  currentHash,
+  onResume,
+  onRename,
+  onDiscard,
+}: Props) {
+  const [renaming, setRenaming] = useState<{
+    hash: string;
+    name: string;
+  } | null>(null);
+
+  function commitRename() {
+    if (renaming && renaming.name.trim())
+      onRename(renaming.hash, renaming.name.trim());
+    setRenaming(null);
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-5">
+      <h3 className="font-semibold mb-2">Saved sessions</h3>
+      <p className="text-sm text-gray-600 mb-2">
+        Edits, deletions and classifications are saved in this browser and
+        restored when the same file is uploaded again.
+      </p>
+      <ul className="text-sm divide-y">
+        {sessions.map((s) => (
+          <li key={s.hash} className="flex flex-wrap items-center gap-3 py-2">
+            <div className="min-w-0">
+              {renaming?.hash === s.hash ? (
+                <input
+                  className="border rounded px-2 py-0.5"
+                  value={renaming.name}
+                  onChange={(e) =>
+                    setRenaming({ hash: s.hash, name: e.target.value })
+                  }
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setRenaming(null);
+                  }}
+                  onBlur={commitRename}
+                  autoFocus
+                />
+              ) : (
+                <button
+                  className="font-medium text-left"
+                  title="Rename"
+                  onClick={() => setRenaming({ hash: s.hash, name: s.name })}
+                >
+                  {s.name}
+                  {s.hash === currentHash && (
+                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-indigo-100 text-indigo-800">
+                      open
+                    </span>
+                  )}
+                </button>
+              )}
+              <div className="text-xs text-gray-500">
+                {s.fileName} • {s.source} • {s.rowCount} rows • {s.editCount}{" "}
+                changes • saved {when(s.updatedAt)}
+              </div>
+            </div>
+            <div className="flex-1" />
+            <button
+              onClick={() => onResume(s.hash)}
+              disabled={s.hash === currentHash}
+              className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white disabled:opacity-40"
+            >
+              Resume
+            </button>
+            <button
+              onClick={() => onDiscard(s.hash)}
+              className="text-red-500 hover:text-red-700 text-xs"
+            >
+              Discard
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { splitProblem, splitRemainder, type SplitLine } from "../splits";
+import { orderedCategories, type Taxonomy } from "../taxonomy";
+
+type Props = {
+  row: {
+    Date: string;
+    Name: string;
+    Type: string;
+    Amount: string;
+    Currency: string;
+    Category: string;
+    Notes: string;
+  };
+  lines: SplitLine[] | undefined; // saved split, if any
+  taxonomy: Taxonomy;
+  onSave: (lines: SplitLine[]) => void;
+  onRemove: () => void;
+  onClose: () => void;
+};
+
+export default function SplitEditor({
+  row,
+  lines: saved,
+  taxonomy,
+  onSave,
+  onRemove,
+  onClose,
+}: Props) {
+  // a new split starts as the whole amount plus an empty line to fill in
+  const [lines, setLines] = useState<SplitLine[]>(
+    () =>
+      saved ?? [
+        { amount: row.Amount, category: row.Category, notes: row.Notes },
+        { amount: "", category: row.Category, notes: "" },
+      ]
+  );
+  const remainder = splitRemainder(row.Amount, lines);
+  const problem = splitProblem(row.Amount, lines);
+
+  const setLine = (i: number, patch: Partial<SplitLine>) =>
+    setLines(lines.map((l, j) => (j === i ? { ...l, ...patch } : l)));
+
+  // the first line starts as the whole amount and absorbs the difference
+  function fillRemainder() {
+    const amount = (parseFloat(lines[0].amount) || 0) + remainder;
+    setLine(0, { amount: amount.toFixed(2) });
+  }
+
+  return (
+    <div className="text-sm bg-indigo-50 border border-indigo-200 rounded-lg p-3 grid gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span>
+          Split <b>{row.Name}</b> ({row.Date}, {row.Type} {row.Amount}{" "}
+          {row.Currency})
+        </span>
+        <div className="flex-1" />
+        {saved && (
+          <button
+            onClick={onRemove}
+            className="text-red-500 hover:text-red-700 text-xs"
+          >
+            Remove split
+          </button>
+        )}
+      </div>
+
+      {lines.map((l, i) => (
+        <div key={i} className="flex flex-wrap items-center gap-2">
+          <input
+            className="border rounded-lg px-2 py-1 w-28 tabular-nums"
+            value={l.amount}
+            placeholder="0.00"
+            inputMode="decimal"
+            onChange={(e) =>
+              setLine(i, { amount: e.target.value.replace(",", ".") })
+            }
+          />
+          <select
+            className="border rounded-lg px-2 py-1"
+            value={l.category}
+            onChange={(e) => setLine(i, { category: e.target.value })}
+          >
+            {orderedCategories(taxonomy).map((c) => (
+              <option key={c.name} value={c.name}>
+                {c.parent ? `› ${c.name}` : c.name}
+              </option>
+            ))}
+          </select>
+          <input
+            className="border rounded-lg px-2 py-1 flex-1 min-w-40"
+            value={l.notes}
+            placeholder="Notes, e.g. Owed by Sam"
+            onChange={(e) => setLine(i, { notes: e.target.value })}
+          />
+          <button
+            onClick={() => setLines(lines.filter((_, j) => j !== i))}
+            disabled={lines.length <= 2}
+            className="text-red-500 hover:text-red-700 text-xs disabled:opacity-30"
+            title="Remove line"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() =>
+            setLines([
+              ...lines,
+              {
+                amount: remainder > 0 ? remainder.toFixed(2) : "",
+                category: row.Category,
+                notes: "",
+              },
+            ])
+          }
+          className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50"
+        >
+          Add line
+        </button>
+        <span
+          className={
+            remainder
+              ? "text-red-700 tabular-nums"
+              : "text-gray-600 tabular-nums"
+          }
+        >
+          Remaining: {remainder.toFixed(2)} {row.Currency}
+        </span>
+        {remainder !== 0 && (
+          <button
+            onClick={fillRemainder}
+            className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50"
+          >
+            Balance on first line
+          </button>
+        )}
+        <div className="flex-1" />
+        {problem && <span className="text-xs text-red-700">{problem}</span>}
+        <button
+          onClick={() =>
+            onSave(lines.map((l) => ({ ...l, notes: l.notes.trim() })))
+          }
+          disabled={!!problem}
+          className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white disabled:opacity-40"
+        >
+          Save split
+        </button>
+        <button
+          onClick={onClose}
+          className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
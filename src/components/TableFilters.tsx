@@ -0,0 +1,235 @@
+import { useState } from "react";
+import {
+  activeFilters,
+  defaultView,
+  type SavedView,
+  type TableView,
+} from "../views";
+import { orderedCategories, type Taxonomy } from "../taxonomy";
+
+type Props = {
+  view: TableView;
+  taxonomy: Taxonomy;
+  currencies: string[];
+  savedViews: SavedView[];
+  shown: number; // rows left after the filters
+  total: number;
+  onChange: (view: TableView) => void;
+  onSaveViews: (views: SavedView[]) => void;
+};
+
+export default function TableFilters({
+  view,
+  taxonomy,
+  currencies,
+  savedViews,
+  shown,
+  total,
+  onChange,
+  onSaveViews,
+}: Props) {
+  const [name, setName] = useState<string>("");
+  const set = (patch: Partial<TableView>) => onChange({ ...view, ...patch });
+  const active = activeFilters(view);
+
+  function toggleCategory(c: string) {
+    set({
+      categories: view.categories.includes(c)
+        ? view.categories.filter((x) => x !== c)
+        : [...view.categories, c],
+    });
+  }
+
+  function saveView() {
+    const n = name.trim();
+    if (!n) return;
+    // saving under an existing name replaces it
+    onSaveViews([
+      ...savedViews.filter((v) => v.name !== n),
+      { ...view, name: n },
+    ]);
+  }
+
+  return (
+    <div className="flex flex-wrap items-end gap-2 text-sm">
+      <label className="grid gap-1">
+        <span className="text-gray-600">Search</span>
+        <input
+          className="border rounded-lg px-2 py-1 w-48"
+          value={view.search}
+          placeholder="Name or notes"
+          onChange={(e) => set({ search: e.target.value })}
+        />
+      </label>
+      <label className="grid gap-1">
+        <span className="text-gray-600">From</span>
+        <input
+          type="date"
+          className="border rounded-lg px-2 py-1"
+          value={view.dateFrom}
+          onChange={(e) => set({ dateFrom: e.target.value })}
+        />
+      </label>
+      <label className="grid gap-1">
+        <span className="text-gray-600">To</span>
+        <input
+          type="date"
+          className="border rounded-lg px-2 py-1"
+          value={view.dateTo}
+          onChange={(e) => set({ dateTo: e.target.value })}
+        />
+      </label>
+      <label className="grid gap-1">
+        <span className="text-gray-600">Amount</span>
+        <span className="flex items-center gap-1">
+          <input
+            className="border rounded-lg px-2 py-1 w-20"
+            value={view.amountMin}
+            placeholder="min"
+            inputMode="decimal"
+            onChange={(e) => set({ amountMin: e.target.value })}
+          />
+          –
+          <input
+            className="border rounded-lg px-2 py-1 w-20"
+            value={view.amountMax}
+            placeholder="max"
+            inputMode="decimal"
+            onChange={(e) => set({ amountMax: e.target.value })}
+          />
+        </span>
+      </label>
+      <div className="grid gap-1">
+        <span className="text-gray-600">Categories</span>
+        <details className="relative">
+          <summary className="border rounded-lg px-2 py-1 bg-white cursor-pointer list-none">
+            {view.categories.length
+              ? `${view.categories.length} selected`
+              : "All"}{" "}
+            ▾
+          </summary>
+          <div className="absolute z-10 mt-1 bg-white border rounded-lg shadow p-2 max-h-64 overflow-auto w-56 grid gap-0.5">
+            {orderedCategories(taxonomy).map((c) => (
+              <label
+                key={c.name}
+                className={`flex items-center gap-2 ${c.parent ? "pl-4" : ""}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={view.categories.includes(c.name)}
+                  onChange={() => toggleCategory(c.name)}
+                />
+                {c.name}
+              </label>
+            ))}
+            {view.categories.length > 0 && (
+              <button
+                onClick={() => set({ categories: [] })}
+                className="text-left text-xs text-indigo-700 hover:underline mt-1"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+        </details>
+      </div>
+      <label className="grid gap-1">
+        <span className="text-gray-600">Currency</span>
+        <select
+          className="border rounded-lg px-2 py-1"
+          value={view.currency}
+          onChange={(e) => set({ currency: e.target.value })}
+        >
+          <option value="">All</option>
+          {currencies.map((c) => (
+            <option key={c} value={c}>
+              {c}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex items-center gap-2 pb-1.5">
+        <input
+          type="checkbox"
+          checked={view.editedOnly}
+          onChange={(e) => set({ editedOnly: e.target.checked })}
+        />
+        Edited only
+      </label>
+      {active > 0 && (
+        <button
+          onClick={() =>
+            onChange({
+              ...defaultView,
+              sortBy: view.sortBy,
+              sortDir: view.sortDir,
+            })
+          }
+          className="px-2 py-1 rounded-lg text-xs border bg-white hover:bg-gray-50 mb-0.5"
+        >
+          ✕ Clear filters
+        </button>
+      )}
+      <span className="text-gray-600 pb-1.5">
+        {active > 0 && (
+          <>
+            Showing <b>{shown}</b> of {total}
+          </>
+        )}
+      </span>
+
+      <div className="flex-1" />
+
+      <label className="grid gap-1">
+        <span className="text-gray-600">Saved views</span>
+        <select
+          className="border rounded-lg px-2 py-1"
+          value=""
+          onChange={(e) => {
+            const v = savedViews.find((x) => x.name === e.target.value);
+            if (!v) return;
+            const { name: viewName, ...rest } = v;
+            setName(viewName);
+            onChange(rest);
+          }}
+        >
+          <option value="">
+            {savedViews.length ? "Apply a view…" : "None saved"}
+          </option>
+          {savedViews.map((v) => (
+            <option key={v.name} value={v.name}>
+              {v.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <input
+        className="border rounded-lg px-2 py-1 w-36"
+        value={name}
+        placeholder="View name"
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") saveView();
+        }}
+      />
+      <button
+        onClick={saveView}
+        disabled={!name.trim()}
+        className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white disabled:opacity-40 mb-0.5"
+      >
+        Save view
+      </button>
+      {savedViews.some((v) => v.name === name.trim()) && (
+        <button
+          onClick={() =>
+            onSaveViews(savedViews.filter((v) => v.name !== name.trim()))
+          }
+          className="text-red-500 hover:text-red-700 text-xs pb-1.5"
+          title={`Delete view "${name.trim()}"`}
+        >
+          Delete
+        </button>
+      )}
+    </div>
+  );
+}
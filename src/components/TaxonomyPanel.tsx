@@ -0,0 +1,219 @@
+import { useState } from "react";
+import {
+  addCategory,
+  categoryColors,
+  deleteTarget,
+  findCategory,
+  mergeCategory,
+  moveCategory,
+  orderedCategories,
+  renameCategory,
+  updateCategory,
+  type Taxonomy,
+} from "../taxonomy";
+
+type Props = {
+  taxonomy: Taxonomy;
+  // `migrate` maps old category names to new ones for edits and rules
+  onChange: (next: Taxonomy, migrate?: Record<string, string>) => void;
+};
+
+export default function TaxonomyPanel({ taxonomy, onChange }: Props) {
+  const [newName, setNewName] = useState<string>("");
+  const [newParent, setNewParent] = useState<string>("");
+  const [renaming, setRenaming] = useState<{
+    from: string;
+    to: string;
+  } | null>(null);
+
+  const topLevel = taxonomy.categories.filter((c) => !c.parent);
+  const exists = (name: string) => !!findCategory(taxonomy, name);
+  const trimmedNew = newName.trim();
+
+  function commitRename() {
+    if (!renaming) return;
+    const to = renaming.to.trim();
+    if (to && to !== renaming.from && !exists(to)) {
+      onChange(renameCategory(taxonomy, renaming.from, to), {
+        [renaming.from]: to,
+      });
+    }
+    setRenaming(null);
+  }
+
+  return (
+    <div className="bg-white rounded-2xl shadow p-5">
+      <h2 className="text-base font-semibold mb-3">Categories</h2>
+      <p className="text-sm text-gray-600 mb-3">
+        Used by the LLM prompt, heuristics, rules, the Category dropdowns and
+        the export. Renaming or merging updates existing edits and rules.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+        <input
+          className="border rounded-lg px-2 py-1"
+          placeholder="New category"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+        />
+        <select
+          className="border rounded-lg px-2 py-1"
+          value={newParent}
+          onChange={(e) => setNewParent(e.target.value)}
+        >
+          <option value="">Top level</option>
+          {topLevel.map((c) => (
+            <option key={c.name} value={c.name}>
+              under {c.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => {
+            onChange(addCategory(taxonomy, trimmedNew, newParent || null));
+            setNewName("");
+          }}
+          disabled={!trimmedNew || exists(trimmedNew)}
+          className="px-2 py-1 rounded-lg text-xs bg-gray-900 text-white disabled:opacity-40"
+        >
+          Add
+        </button>
+      </div>
+
+      <ul className="text-sm divide-y">
+        {orderedCategories(taxonomy).map((c) => {
+          const hasChildren = taxonomy.categories.some(
+            (x) => x.parent === c.name
+          );
+          const fallback = deleteTarget(taxonomy, c.name);
+          return (
+            <li
+              key={c.name}
+              className={
+                "flex flex-wrap items-center gap-2 py-1.5 " +
+                (c.parent ? "pl-6" : "")
+              }
+            >
+              {renaming?.from === c.name ? (
+                <input
+                  className="border rounded px-2 py-0.5 w-40"
+                  value={renaming.to}
+                  onChange={(e) =>
+                    setRenaming({ from: c.name, to: e.target.value })
+                  }
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setRenaming(null);
+                  }}
+                  onBlur={commitRename}
+                  autoFocus
+                />
+              ) : (
+                <button
+                  onClick={() => setRenaming({ from: c.name, to: c.name })}
+                  title="Rename"
+                  className={
+                    "inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium " +
+                    (categoryColors[c.color] || categoryColors.gray)
+                  }
+                >
+                  {c.parent ? `› ${c.name}` : c.name}
+                </button>
+              )}
+              <div className="flex-1" />
+              <select
+                className="border rounded px-1 py-0.5 text-xs"
+                value={c.color}
+                onChange={(e) =>
+                  onChange(
+                    updateCategory(taxonomy, c.name, { color: e.target.value })
+                  )
+                }
+                title="Color"
+              >
+                {Object.keys(categoryColors).map((k) => (
+                  <option key={k} value={k}>
+                    {k}
+                  </option>
+                ))}
+              </select>
+              <select
+                className="border rounded px-1 py-0.5 text-xs"
+                value={c.parent || ""}
+                disabled={hasChildren}
+                onChange={(e) =>
+                  onChange(
+                    updateCategory(taxonomy, c.name, {
+                      parent: e.target.value || null,
+                    })
+                  )
+                }
+                title={
+                  hasChildren
+                    ? "Categories with subcategories stay top level"
+                    : "Parent"
+                }
+              >
+                <option value="">Top level</option>
+                {topLevel
+                  .filter((p) => p.name !== c.name)
+                  .map((p) => (
+                    <option key={p.name} value={p.name}>
+                      under {p.name}
+                    </option>
+                  ))}
+              </select>
+              <select
+                className="border rounded px-1 py-0.5 text-xs"
+                value=""
+                onChange={(e) =>
+                  e.target.value &&
+                  onChange(mergeCategory(taxonomy, c.name, e.target.value), {
+                    [c.name]: e.target.value,
+                  })
+                }
+                title="Merge into another category"
+              >
+                <option value="">Merge into…</option>
+                {orderedCategories(taxonomy)
+                  .filter((x) => x.name !== c.name)
+                  .map((x) => (
+                    <option key={x.name} value={x.name}>
+                      {x.name}
+                    </option>
+                  ))}
+              </select>
+              <button
+                onClick={() => onChange(moveCategory(taxonomy, c.name, -1))}
+                className="px-1 text-gray-600"
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => onChange(moveCategory(taxonomy, c.name, 1))}
+                className="px-1 text-gray-600"
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() =>
+                  fallback &&
+                  onChange(mergeCategory(taxonomy, c.name, fallback), {
+                    [c.name]: fallback,
+                  })
+                }
+                disabled={!fallback}
+                className="px-1 text-red-500 hover:text-red-700 text-xs disabled:opacity-30"
+                title={fallback ? `Delete (rows move to ${fallback})` : ""}
+              >
+                ✕
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { formatDate, type DateFormat } from "./parse";
+
+// ---- CSV export profiles ----
+// A profile fixes the layout of the downloaded CSV; the built-in default keeps
+// the original headerless, comma-separated output.
+
+export const exportColumns = [
+  "Date",
+  "Type",
+  "Amount",
+  "Currency",
+  "Category",
+  "Name",
+  "Account",
+  "Notes",
+  "Source",
+  "File",
+  "AmountBase",
+  "FxRate",
+  "Direction",
+  "TransferId",
+  "Fee",
+  "Balance",
+  "FeeId",
+  "SplitId",
+] as const;
+
+export type ExportColumn = (typeof exportColumns)[number];
+
+export type QuoteStyle = "minimal" | "all";
+
+export type Encoding = "utf-8" | "windows-1252" | "utf-16le";
+
+export const encodings: Encoding[] = ["utf-8", "windows-1252", "utf-16le"];
+
+export type ExportProfile = {
+  name: string;
+  header: boolean;
+  delimiter: string; // "," ";" or "\t"
+  quote: QuoteStyle;
+  decimal: "." | ",";
+  signed: boolean; // negative amounts for expenses instead of absolute values
+  dateFormat: DateFormat;
+  columns: ExportColumn[]; // in output order
+  encoding: Encoding;
+  bom: boolean;
+};
+
+export const defaultExportProfile: ExportProfile = {
+  name: "Default",
+  header: false,
+  delimiter: ",",
+  quote: "minimal",
+  decimal: ".",
+  signed: false,
+  dateFormat: "YYYY-MM-DD",
+  columns: [
+    "Date",
+    "Type",
+    "Amount",
+    "Currency",
+    "Category",
+    "Name",
+    "Account",
+    "Notes",
+    "Source",
+  ],
+  encoding: "utf-8",
+  bom: false,
+};
+
+const storageKey = "rcvt_export_profiles";
+
+// Saved profiles; the built-in default is always first and cannot be replaced.
+export function loadExportProfiles(): ExportProfile[] {
+  try {
+    const list = JSON.parse(localStorage.getItem(storageKey) || "[]");
+    if (!Array.isArray(list)) return [defaultExportProfile];
+    return [
+      defaultExportProfile,
+      ...list
+        .filter((p) => p?.name && p.name !== defaultExportProfile.name)
+        .map((p) => ({ ...defaultExportProfile, ...p })),
+    ];
+  } catch {
+    return [defaultExportProfile];
+  }
+}
+
+export function saveExportProfiles(profiles: ExportProfile[]) {
+  localStorage.setItem(
+    storageKey,
+    JSON.stringify(profiles.filter((p) => p.name !== defaultExportProfile.name))
+  );
+}
+
+// An export row as shown in the table: Amount is absolute, Type gives the sign.
+export type ExportRow = Record<ExportColumn, string>;
+
+// Money out of the account; transfer legs carry their side in Direction.
+export function isOutflow(row: ExportRow): boolean {
+  return row.Direction ? row.Direction === "out" : row.Type === "Expense";
+}
+
+function quoteField(value: string, p: ExportProfile): string {
+  const needsQuotes =
+    p.quote === "all" || value.includes(p.delimiter) || /["\r\n]/.test(value);
+  return needsQuotes ? '"' + value.replace(/"/g, '""') + '"' : value;
+}
+
+function formatValue(row: ExportRow, col: ExportColumn, p: ExportProfile) {
+  const v = row[col] ?? "";
+  if (col === "Date") return formatDate(v, p.dateFormat);
+  if (col === "FxRate" || col === "Fee" || col === "Balance")
+    return p.decimal === "," ? v.replace(".", ",") : v;
+  if (col === "Amount" || (col === "AmountBase" && v !== "")) {
+    const n = Math.abs(parseFloat(v) || 0);
+    const signed = p.signed && isOutflow(row) ? -n : n;
+    const s = signed.toFixed(2);
+    return p.decimal === "," ? s.replace(".", ",") : s;
+  }
+  return v;
+}
+
+export function toCsv(rows: ExportRow[], p: ExportProfile): string {
+  const lines = rows.map((row) =>
+    p.columns
+      .map((c) => quoteField(formatValue(row, c, p), p))
+      .join(p.delimiter)
+  );
+  if (p.header)
+    lines.unshift(p.columns.map((c) => quoteField(c, p)).join(p.delimiter));
+  return lines.length ? lines.join("\n") + "\n" : "";
+}
+
+// Windows-1252 characters for bytes 0x80-0x9F (unassigned bytes keep their C1
+// code point); everything else below 0x100 maps to itself.
+const cp1252High =
+  "\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f" +
+  "\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178";
+
+// Encodes the CSV text; characters windows-1252 cannot represent become "?".
+export function encodeCsv(text: string, p: ExportProfile): Uint8Array {
+  if (p.encoding === "utf-16le") {
+    const out = new Uint8Array((text.length + (p.bom ? 1 : 0)) * 2);
+    const body = p.bom ? "\uFEFF" + text : text;
+    for (let i = 0; i < body.length; i++) {
+      const c = body.charCodeAt(i);
+      out[i * 2] = c & 0xff;
+      out[i * 2 + 1] = c >> 8;
+    }
+    return out;
+  }
+  if (p.encoding === "windows-1252") {
+    const chars = Array.from(text);
+    return Uint8Array.from(chars, (ch) => {
+      const high = cp1252High.indexOf(ch);
+      if (high >= 0) return 0x80 + high;
+      const c = ch.codePointAt(0) ?? 0x3f;
+      return c < 0x100 ? c : 0x3f;
+    });
+  }
+  return new TextEncoder().encode(p.bom ? "\uFEFF" + text : text);
+}
+
+export function csvMimeType(p: ExportProfile): string {
+  return `text/csv;charset=${p.encoding};`;
+}
@@ -0,0 +1,16 @@
+// Triggers a browser download for in-memory content.
+export function downloadFile(
+  filename: string,
+  content: BlobPart,
+  type: string
+) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,92 @@
+import type { BankAdapter, NormalizedRow } from "./adapters";
+import { combineFiles, rowId, sessionFiles } from "./imports";
+import type { Session } from "./session";
+
+// ---- Duplicate / overlapping-import detection ----
+// Two rows are the same transaction when date, signed amount, currency,
+// description and running balance all agree.
+
+export function duplicateKey(
+  r: Pick<NormalizedRow, "Date" | "Amount" | "Currency" | "Name" | "Balance">
+): string {
+  return [
+    r.Date,
+    (r.Amount || 0).toFixed(2),
+    r.Currency.trim().toUpperCase(),
+    r.Name.trim().toLowerCase().replace(/\s+/g, " "),
+    r.Balance.trim(),
+  ].join("|");
+}
+
+// A row already imported in an earlier session, with what was decided for it there.
+export type PriorRow = {
+  hash: string;
+  session: string; // session name
+  id: string;
+  Category?: string;
+  Notes?: string;
+};
+
+export type Duplicate = {
+  id: string;
+  originalId?: string; // earlier row with the same key in this file
+  prior?: PriorRow; // same row in an earlier session
+};
+
+// Adds the non-deleted rows of an earlier session to `into` (first session wins).
+export function indexSessionRows(
+  session: Session,
+  adapterOf: (source: string) => BankAdapter,
+  dateField: string,
+  into: Map<string, PriorRow>
+) {
+  const deleted = new Set(session.deletedIds);
+  const files = sessionFiles(session);
+  const adapters = files.map((f) => adapterOf(f.source));
+  for (const r of combineFiles(files, adapters, dateField)) {
+    const id = rowId(r);
+    const key = duplicateKey(r);
+    if (deleted.has(id) || into.has(key)) continue;
+    const edit = session.edits[id] || {};
+    into.set(key, {
+      hash: session.hash,
+      session: session.name,
+      id,
+      Category: edit.Category ?? session.categoryMap[r.Name],
+      Notes: edit.Notes,
+    });
+  }
+}
+
+// Rows (in file order) that repeat an earlier row of the file or of a prior session.
+// The first occurrence in the file is the original and is never reported as an
+// in-file duplicate; it can still match a prior session.
+export function findDuplicates(
+  rows: { id: string; key: string }[],
+  prior: Map<string, PriorRow>
+): Duplicate[] {
+  const first = new Map<string, string>();
+  const out: Duplicate[] = [];
+  for (const r of rows) {
+    const originalId = first.get(r.key);
+    if (originalId) {
+      out.push({ id: r.id, originalId });
+      continue;
+    }
+    first.set(r.key, r.id);
+    const p = prior.get(r.key);
+    if (p) out.push({ id: r.id, prior: p });
+  }
+  return out;
+}
+
+// keep: not a duplicate; drop: delete the row; merge: fold its category/notes
+// into the surviving row (the original in this file, or this row for a prior match)
+export type DuplicateAction = "keep" | "drop" | "merge";
+
+// Distinct non-empty notes joined in order.
+export function mergeNotes(...notes: (string | undefined)[]): string {
+  return Array.from(
+    new Set(notes.map((n) => (n || "").trim()).filter(Boolean))
+  ).join(" / ");
+}
@@ -0,0 +1,309 @@
+import { isOutflow, type ExportRow } from "./csvExport";
+import { buildXlsx, type Cell, type Sheet } from "./xlsx";
+
+// ---- Exporters for non-CSV targets ----
+// All take the same rows as the CSV export (absolute Amount + Type, Category
+// as a "Parent:Child" path) and return file contents.
+
+export type ExportFormat = "csv" | "xlsx" | "json" | "ofx" | "qif" | "ledger";
+
+export const exportFormats: {
+  id: Exclude<ExportFormat, "csv">;
+  label: string; // format picker
+  short: string; // download button
+  extension: string;
+  mime: string;
+}[] = [
+  {
+    id: "xlsx",
+    label: "Excel (XLSX)",
+    short: "XLSX",
+    extension: "xlsx",
+    mime: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  {
+    id: "json",
+    label: "JSON",
+    short: "JSON",
+    extension: "json",
+    mime: "application/json",
+  },
+  {
+    id: "ofx",
+    label: "OFX",
+    short: "OFX",
+    extension: "ofx",
+    mime: "application/x-ofx",
+  },
+  {
+    id: "qif",
+    label: "QIF",
+    short: "QIF",
+    extension: "qif",
+    mime: "application/qif",
+  },
+  {
+    id: "ledger",
+    label: "Ledger / hledger journal",
+    short: "journal",
+    extension: "journal",
+    mime: "text/plain",
+  },
+];
+
+const signedAmount = (r: ExportRow) => {
+  const n = Math.abs(parseFloat(r.Amount) || 0);
+  return isOutflow(r) ? -n : n;
+};
+
+const money = (n: number) => n.toFixed(2);
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// ---- JSON ----
+
+// AmountBase, FxRate, Fee and Balance become numbers too, and are left out when empty.
+export function toJson(rows: ExportRow[]): string {
+  const out = rows.map((r) => ({
+    ...r,
+    Amount: signedAmount(r),
+    AmountBase: r.AmountBase
+      ? signedAmount({ ...r, Amount: r.AmountBase })
+      : undefined,
+    FxRate: r.FxRate ? Number(r.FxRate) : undefined,
+    Fee: r.Fee ? Number(r.Fee) : undefined,
+    Balance: r.Balance ? Number(r.Balance) : undefined,
+  }));
+  return JSON.stringify(out, null, 2) + "\n";
+}
+
+// ---- XLSX: one sheet per month plus a summary ----
+
+const sheetColumns = [
+  "Date",
+  "Type",
+  "Amount",
+  "Currency",
+  "Category",
+  "Name",
+  "Account",
+  "Notes",
+] as const;
+
+export function xlsxSheets(rows: ExportRow[]): Sheet[] {
+  const months = new Map<string, ExportRow[]>();
+  for (const r of rows) {
+    const m = r.Date.slice(0, 7) || "Undated";
+    if (!months.has(m)) months.set(m, []);
+    months.get(m)?.push(r);
+  }
+  const monthNames = Array.from(months.keys()).sort();
+
+  // Summary: income/expenses per month and currency, then category totals
+  const summary: Cell[][] = [
+    ["Month", "Currency", "Income", "Expenses", "Net"],
+  ];
+  const byCategory = new Map<string, number>();
+  for (const m of monthNames) {
+    const totals = new Map<string, { income: number; expenses: number }>();
+    for (const r of months.get(m) || []) {
+      if (r.Type === "Transfer") continue; // moves money between own accounts
+      const t = totals.get(r.Currency) || { income: 0, expenses: 0 };
+      const n = signedAmount(r);
+      if (n < 0) t.expenses += -n;
+      else t.income += n;
+      totals.set(r.Currency, t);
+      const k = `${r.Category}\u0000${r.Currency}`;
+      byCategory.set(k, (byCategory.get(k) || 0) + n);
+    }
+    for (const [cur, t] of Array.from(totals).sort()) {
+      summary.push([
+        m,
+        cur,
+        round(t.income),
+        round(t.expenses),
+        round(t.income - t.expenses),
+      ]);
+    }
+  }
+  summary.push([], ["Category", "Currency", "Total"]);
+  for (const [k, total] of Array.from(byCategory).sort()) {
+    const [cat, cur] = k.split("\u0000");
+    summary.push([cat, cur, round(total)]);
+  }
+
+  return [
+    { name: "Summary", rows: summary },
+    ...monthNames.map((m) => ({
+      name: m,
+      rows: [
+        [...sheetColumns] as Cell[],
+        ...(months.get(m) || []).map((r) =>
+          sheetColumns.map((c) => (c === "Amount" ? signedAmount(r) : r[c]))
+        ),
+      ],
+    })),
+  ];
+}
+
+export function toXlsx(rows: ExportRow[]): Uint8Array {
+  return buildXlsx(xlsxSheets(rows));
+}
+
+// ---- OFX 1.0.2 (SGML), one bank statement per account and currency ----
+
+// Stable transaction id from the row contents, so re-exports don't import twice.
+function fitIds(rows: ExportRow[]): string[] {
+  const seen = new Map<string, number>();
+  return rows.map((r) => {
+    const text = [r.Date, r.Amount, r.Type, r.Currency, r.Name, r.Account];
+    let h = 5381;
+    for (const ch of text.join("|")) h = ((h * 33) ^ ch.charCodeAt(0)) >>> 0;
+    const base = `${r.Date.replace(/-/g, "")}${h.toString(16).padStart(8, "0")}`;
+    const n = (seen.get(base) || 0) + 1;
+    seen.set(base, n);
+    return n > 1 ? `${base}-${n}` : base;
+  });
+}
+
+const sgml = (s: string) =>
+  s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const ofxDate = (iso: string) => iso.replace(/-/g, "");
+
+export function toOfx(rows: ExportRow[], generatedAt: Date): string {
+  const ids = fitIds(rows);
+  const groups = new Map<string, number[]>();
+  rows.forEach((r, i) => {
+    const k = `${r.Account}\u0000${r.Currency}`;
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)?.push(i);
+  });
+  const now = generatedAt.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+
+  const statements = Array.from(groups).map(([k, idx], n) => {
+    const [account, currency] = k.split("\u0000");
+    const dates = idx.map((i) => rows[i].Date).sort();
+    const net = idx.reduce((sum, i) => sum + signedAmount(rows[i]), 0);
+    const txns = idx.map((i) => {
+      const r = rows[i];
+      const amount = signedAmount(r);
+      const memo = [r.Category, r.Notes].filter(Boolean).join(" - ");
+      return [
+        "<STMTTRN>",
+        `<TRNTYPE>${r.Type === "Transfer" ? "XFER" : amount < 0 ? "DEBIT" : "CREDIT"}`,
+        `<DTPOSTED>${ofxDate(r.Date)}`,
+        `<TRNAMT>${money(amount)}`,
+        `<FITID>${ids[i]}`,
+        `<NAME>${sgml(r.Name.slice(0, 32))}`,
+        ...(memo ? [`<MEMO>${sgml(memo)}`] : []),
+        "</STMTTRN>",
+      ].join("\n");
+    });
+    return [
+      "<STMTTRNRS>",
+      `<TRNUID>${n + 1}`,
+      "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+      "<STMTRS>",
+      `<CURDEF>${sgml(currency)}`,
+      "<BANKACCTFROM>",
+      "<BANKID>FINTRACK",
+      `<ACCTID>${sgml(account)}`,
+      "<ACCTTYPE>CHECKING",
+      "</BANKACCTFROM>",
+      "<BANKTRANLIST>",
+      `<DTSTART>${ofxDate(dates[0])}`,
+      `<DTEND>${ofxDate(dates[dates.length - 1])}`,
+      ...txns,
+      "</BANKTRANLIST>",
+      // OFX requires a ledger balance; this is the net of the exported rows
+      `<LEDGERBAL><BALAMT>${money(net)}<DTASOF>${ofxDate(dates[dates.length - 1])}</LEDGERBAL>`,
+      "</STMTRS>",
+      "</STMTTRNRS>",
+    ].join("\n");
+  });
+
+  return (
+    [
+      "OFXHEADER:100",
+      "DATA:OFXSGML",
+      "VERSION:102",
+      "SECURITY:NONE",
+      "ENCODING:UTF-8",
+      "CHARSET:NONE",
+      "COMPRESSION:NONE",
+      "OLDFILEUID:NONE",
+      "NEWFILEUID:NONE",
+      "",
+      "<OFX>",
+      "<SIGNONMSGSRSV1><SONRS>",
+      "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+      `<DTSERVER>${now}`,
+      "<LANGUAGE>ENG",
+      "</SONRS></SIGNONMSGSRSV1>",
+      "<BANKMSGSRSV1>",
+      ...statements,
+      "</BANKMSGSRSV1>",
+      "</OFX>",
+    ].join("\n") + "\n"
+  );
+}
+
+// ---- QIF (bank), with an !Account block per account when there are several ----
+
+const qifDate = (iso: string) => {
+  const [y, m, d] = iso.split("-");
+  return y && m && d ? `${m}/${d}/${y}` : iso;
+};
+
+export function toQif(rows: ExportRow[]): string {
+  const accounts = Array.from(new Set(rows.map((r) => r.Account)));
+  const lines: string[] = [];
+  for (const account of accounts) {
+    if (accounts.length > 1) {
+      lines.push("!Account", `N${account}`, "TBank", "^");
+    }
+    lines.push("!Type:Bank");
+    for (const r of rows.filter((x) => x.Account === account)) {
+      lines.push(
+        `D${qifDate(r.Date)}`,
+        `T${money(signedAmount(r))}`,
+        `P${r.Name}`,
+        ...(r.Category ? [`L${r.Category}`] : []),
+        ...(r.Notes ? [`M${r.Notes}`] : []),
+        "^"
+      );
+    }
+  }
+  return lines.length ? lines.join("\n") + "\n" : "";
+}
+
+// ---- Ledger / hledger journal ----
+
+// Account names end at two spaces or a tab, so collapse whitespace.
+const ledgerName = (s: string) => s.trim().replace(/\s+/g, " ");
+
+// Expense rows post to Expenses:<category>, income rows to Income:<category>;
+// both legs of a transfer go through Equity:Transfers.
+export function ledgerAccount(r: ExportRow): string {
+  if (r.Type === "Transfer") return "Equity:Transfers";
+  const root = r.Type === "Expense" ? "Expenses" : "Income";
+  const cat = ledgerName(r.Category);
+  if (!cat || cat === root) return root;
+  return `${root}:${cat}`;
+}
+
+export function toLedger(rows: ExportRow[]): string {
+  return rows
+    .map((r) => {
+      const amount = -signedAmount(r); // the category side of the posting
+      const lines = [`${r.Date} ${ledgerName(r.Name)}`];
+      if (r.Notes) lines.push(`    ; ${r.Notes}`);
+      lines.push(
+        `    ${ledgerAccount(r)}  ${money(amount)} ${r.Currency}`,
+        `    Assets:${ledgerName(r.Account) || "Bank"}`
+      );
+      return lines.join("\n") + "\n";
+    })
+    .join("\n");
+}
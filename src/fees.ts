@@ -0,0 +1,80 @@
+import { parseAmount } from "./parse";
+
+// ---- Fees and running balances ----
+// Revolut charges fees on top of Amount; Wise has already taken them off.
+// Either way the bank's running Balance moves by the total, which lets us
+// recompute it from the amounts and flag rows where the two disagree.
+
+export type FeeMode = "column" | "split" | "add";
+
+export const feeModes: { id: FeeMode; label: string }[] = [
+  { id: "column", label: "Fee column" },
+  { id: "split", label: "Separate Fees row" },
+  { id: "add", label: "Added to amount" },
+];
+
+export type FeeParts = {
+  amount: number; // signed amount of the row itself
+  fee: number; // signed amount of the separate Fees row, 0 when there is none
+  column: number; // fee left to show in the Fee column
+};
+
+// Splits a row's money movement for the fee mode. `inAmount` is true when the
+// bank's Amount already includes the fee.
+export function feeParts(
+  amount: number,
+  fee: number,
+  inAmount: boolean,
+  mode: FeeMode
+): FeeParts {
+  const charged = Math.abs(fee || 0);
+  const total = inAmount ? amount : amount - charged;
+  if (!charged || mode === "column") return { amount, fee: 0, column: charged };
+  if (mode === "add") return { amount: total, fee: 0, column: charged };
+  return { amount: total + charged, fee: -charged, column: 0 };
+}
+
+export type BalanceRow = {
+  id: string;
+  account: string; // one running balance per file and currency
+  Date: string;
+  Amount: number;
+  Fee: number;
+  Balance: string;
+  inAmount: boolean;
+};
+
+export type BalanceMismatch = { expected: number; actual: number };
+
+// Walks each account in statement order (oldest first, whichever way the file
+// is sorted) and compares every balance with the previous one plus the
+// row's total. Rows without a balance (pending) are skipped.
+export function reconcileBalances(
+  rows: BalanceRow[]
+): Map<string, BalanceMismatch> {
+  const accounts = new Map<string, BalanceRow[]>();
+  for (const r of rows) {
+    if (!r.Balance.trim()) continue;
+    if (!accounts.has(r.account)) accounts.set(r.account, []);
+    accounts.get(r.account)?.push(r);
+  }
+
+  const out = new Map<string, BalanceMismatch>();
+  for (const list of accounts.values()) {
+    const ordered =
+      list[0].Date > list[list.length - 1].Date ? [...list].reverse() : list;
+    let previous: number | null = null;
+    for (const r of ordered) {
+      const actual = parseAmount(r.Balance);
+      const { amount } = feeParts(r.Amount, r.Fee, r.inAmount, "add");
+      const expected = previous === null ? actual : previous + amount;
+      if (Math.abs(expected - actual) >= 0.005)
+        out.set(r.id, {
+          expected: Math.round(expected * 100) / 100,
+          actual,
+        });
+      previous = actual;
+    }
+  }
+  return out;
+}
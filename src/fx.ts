@@ -0,0 +1,150 @@
+import { parseAmount, toISODate, type RawRow } from "./parse";
+
+// ---- FX rates and base-currency conversion ----
+// Rates are quoted against one anchor currency, like the ECB reference rates
+// (1 EUR = x USD). Any two currencies in the table convert through the anchor;
+// a transaction uses the latest rate published on or before its date.
+
+export type FxTable = {
+  anchor: string;
+  dates: string[]; // ascending ISO dates
+  rates: Record<string, (number | null)[]>; // per currency, aligned with dates
+};
+
+export const emptyFxTable: FxTable = { anchor: "EUR", dates: [], rates: {} };
+
+const storageKey = "rcvt_fx_rates";
+
+export function loadFxTable(): FxTable {
+  try {
+    const t = JSON.parse(localStorage.getItem(storageKey) || "null");
+    if (!t?.anchor || !Array.isArray(t.dates)) return emptyFxTable;
+    return { anchor: t.anchor, dates: t.dates, rates: t.rates || {} };
+  } catch {
+    return emptyFxTable;
+  }
+}
+
+// Throws when the table does not fit in localStorage (e.g. the full ECB history
+// with every currency); the caller keeps it in memory for the session.
+export function saveFxTable(t: FxTable) {
+  localStorage.setItem(storageKey, JSON.stringify(t));
+}
+
+const isCurrency = (s: string) => /^[A-Z]{3}$/.test(s.trim());
+
+// Adds rates (currency per 1 anchor) to the table; later values win.
+export function mergeRates(
+  t: FxTable,
+  quotes: { date: string; currency: string; rate: number }[]
+): FxTable {
+  const byDate = new Map<string, Record<string, number | null>>();
+  t.dates.forEach((d, i) => {
+    const day: Record<string, number | null> = {};
+    for (const [c, list] of Object.entries(t.rates)) day[c] = list[i];
+    byDate.set(d, day);
+  });
+  const currencies = new Set(Object.keys(t.rates));
+  for (const q of quotes) {
+    if (q.currency === t.anchor) continue;
+    currencies.add(q.currency);
+    const day = byDate.get(q.date) || {};
+    day[q.currency] = q.rate;
+    byDate.set(q.date, day);
+  }
+  const dates = Array.from(byDate.keys()).sort();
+  const rates: Record<string, (number | null)[]> = {};
+  for (const c of Array.from(currencies).sort())
+    rates[c] = dates.map((d) => byDate.get(d)?.[c] ?? null);
+  return { anchor: t.anchor, dates, rates };
+}
+
+export function removeCurrency(t: FxTable, currency: string): FxTable {
+  const rates = { ...t.rates };
+  delete rates[currency];
+  // drop dates no remaining currency has a rate for
+  const keep = t.dates.map((_, i) =>
+    Object.values(rates).some((list) => list[i] != null)
+  );
+  return {
+    anchor: t.anchor,
+    dates: t.dates.filter((_, i) => keep[i]),
+    rates: Object.fromEntries(
+      Object.entries(rates).map(([c, list]) => [
+        c,
+        list.filter((_, i) => keep[i]),
+      ])
+    ),
+  };
+}
+
+// Reads a rates CSV: either one column per currency (the ECB history file:
+// Date, USD, JPY, ...; "N/A" for missing days) or Date, Currency, Rate rows.
+export function parseFxCsv(
+  headers: string[],
+  rows: RawRow[]
+): { date: string; currency: string; rate: number }[] {
+  const dateCol = headers.find((h) => /^date$/i.test(h.trim())) ?? headers[0];
+  const currencyCol = headers.find((h) => /^currency$/i.test(h.trim()));
+  const rateCol = headers.find((h) => /^rate$/i.test(h.trim()));
+  const out: { date: string; currency: string; rate: number }[] = [];
+  for (const r of rows) {
+    const date = toISODate(r[dateCol] || "");
+    if (!date) continue;
+    const add = (currency: string, value: string) => {
+      const rate = parseAmount(value);
+      if (isCurrency(currency) && rate > 0)
+        out.push({ date, currency: currency.trim(), rate });
+    };
+    if (currencyCol && rateCol)
+      add((r[currencyCol] || "").toUpperCase(), r[rateCol] || "");
+    else for (const h of headers) if (h !== dateCol) add(h, r[h] || "");
+  }
+  return out;
+}
+
+// Latest rate on or before the date; before the first quote, the earliest one.
+function anchorRate(t: FxTable, currency: string, date: string): number | null {
+  if (currency === t.anchor) return 1;
+  const list = t.rates[currency];
+  if (!list) return null;
+  let lo = 0;
+  let hi = t.dates.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (t.dates[mid] <= date) lo = mid + 1;
+    else hi = mid;
+  }
+  for (let i = lo - 1; i >= 0; i--) if (list[i] != null) return list[i];
+  for (let i = lo; i < list.length; i++) if (list[i] != null) return list[i];
+  return null;
+}
+
+// Units of `to` per unit of `from` on the date, or null when a rate is missing.
+export function fxRate(
+  t: FxTable,
+  from: string,
+  to: string,
+  date: string
+): number | null {
+  if (from === to) return 1;
+  const a = anchorRate(t, from, date);
+  const b = anchorRate(t, to, date);
+  return a && b ? b / a : null;
+}
+
+// FxRate and AmountBase for a table row (absolute Amount); empty without a
+// base currency or a rate.
+export function baseAmount(
+  t: FxTable,
+  base: string,
+  row: { Date: string; Amount: string; Currency: string }
+): { AmountBase: string; FxRate: string } {
+  const rate = base ? fxRate(t, row.Currency, base, row.Date) : null;
+  if (rate === null) return { AmountBase: "", FxRate: "" };
+  const amount = Math.abs(parseFloat(row.Amount) || 0) * rate;
+  return {
+    AmountBase: amount.toFixed(2),
+    FxRate: String(Math.round(rate * 1e6) / 1e6),
+  };
+}
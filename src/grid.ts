@@ -0,0 +1,136 @@
+import { parseAmount, toISODate } from "./parse";
+
+// ---- Spreadsheet-style navigation over the editable table cells ----
+// The cursor is a range between an anchor and a focus cell (row and column
+// indexes into the table rows and `gridFields`). Copied ranges are
+// tab-separated text, which spreadsheets read and write.
+
+export const gridFields = ["Date", "Amount", "Category", "Notes"] as const;
+
+export type GridField = (typeof gridFields)[number];
+
+export type Cell = { row: number; col: number };
+
+export type CellRange = { anchor: Cell; focus: Cell };
+
+export function rangeBounds(r: CellRange) {
+  return {
+    top: Math.min(r.anchor.row, r.focus.row),
+    bottom: Math.max(r.anchor.row, r.focus.row),
+    left: Math.min(r.anchor.col, r.focus.col),
+    right: Math.max(r.anchor.col, r.focus.col),
+  };
+}
+
+export function inRange(r: CellRange, row: number, col: number): boolean {
+  const b = rangeBounds(r);
+  return row >= b.top && row <= b.bottom && col >= b.left && col <= b.right;
+}
+
+const clamp = (n: number, max: number) => Math.max(0, Math.min(n, max));
+
+// Next cursor for a navigation key, or null when the key does not move.
+// Shift extends the range with the arrows; Tab wraps to the next row, and
+// past the last cell (Shift+Tab: the first) it is left to the browser so
+// focus can leave the grid.
+export function moveCursor(
+  r: CellRange,
+  key: string,
+  shift: boolean,
+  rows: number
+): CellRange | null {
+  const last = gridFields.length - 1;
+  const { row, col } = r.focus;
+  let next: Cell;
+  if (key === "Tab") {
+    const i = row * gridFields.length + col + (shift ? -1 : 1);
+    if (i < 0 || i >= rows * gridFields.length) return null;
+    next = {
+      row: Math.floor(i / gridFields.length),
+      col: i % gridFields.length,
+    };
+    return { anchor: next, focus: next };
+  }
+  if (key === "ArrowUp") next = { row: clamp(row - 1, rows - 1), col };
+  else if (key === "ArrowDown") next = { row: clamp(row + 1, rows - 1), col };
+  else if (key === "ArrowLeft") next = { row, col: clamp(col - 1, last) };
+  else if (key === "ArrowRight") next = { row, col: clamp(col + 1, last) };
+  else if (key === "Home") next = { row, col: 0 };
+  else if (key === "End") next = { row, col: last };
+  else return null;
+  return { anchor: shift ? r.anchor : next, focus: next };
+}
+
+// Tab-separated lines; fields with tabs, newlines or quotes are quoted.
+export function toTsv(values: string[][]): string {
+  const field = (v: string) =>
+    /[\t\r\n"]/.test(v) ? '"' + v.replace(/"/g, '""') + '"' : v;
+  return values.map((line) => line.map(field).join("\t")).join("\n");
+}
+
+export function parseTsv(text: string): string[][] {
+  const out: string[][] = [];
+  let line: string[] = [];
+  let value = "";
+  let quoted = false;
+  const body = text.replace(/\r\n?/g, "\n").replace(/\n$/, "");
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (quoted) {
+      if (ch === '"' && body[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (ch === '"') quoted = false;
+      else value += ch;
+    } else if (ch === '"' && value === "") quoted = true;
+    else if (ch === "\t") {
+      line.push(value);
+      value = "";
+    } else if (ch === "\n") {
+      out.push([...line, value]);
+      line = [];
+      value = "";
+    } else value += ch;
+  }
+  out.push([...line, value]);
+  return out;
+}
+
+// A pasted or filled value in the form the table stores, or null when it
+// does not fit the column. `category` maps a name (or a "Parent:Child" path)
+// onto the taxonomy.
+export function cellValue(
+  field: GridField,
+  raw: string,
+  category: (name: string) => string | null
+): string | null {
+  const v = raw.trim();
+  if (field === "Notes") return v;
+  if (!v) return null;
+  if (field === "Date") return toISODate(v) || null;
+  if (field === "Amount")
+    return /\d/.test(v) ? Math.abs(parseAmount(v)).toFixed(2) : null;
+  return category(v.split(/:|›/).pop()?.trim() ?? v);
+}
+
+// The cells a paste writes: a single copied value fills the whole range,
+// anything larger is laid out from the range's top-left cell.
+export function pasteTargets(
+  r: CellRange,
+  values: string[][],
+  rows: number
+): { row: number; col: number; value: string }[] {
+  const b = rangeBounds(r);
+  const single = values.length === 1 && values[0].length === 1;
+  const height = single ? b.bottom - b.top + 1 : values.length;
+  const width = single ? b.right - b.left + 1 : values[0].length;
+  const out: { row: number; col: number; value: string }[] = [];
+  for (let i = 0; i < height && b.top + i < rows; i++)
+    for (let j = 0; j < width && b.left + j < gridFields.length; j++)
+      out.push({
+        row: b.top + i,
+        col: b.left + j,
+        value: single ? values[0][0] : (values[i][j] ?? ""),
+      });
+  return out;
+}
@@ -0,0 +1,62 @@
+// ---- Undo/redo stack of state snapshots ----
+// Each entry keeps the state before and after one user action; snapshots are
+// immutable values, so consecutive entries share most of their data.
+
+export type HistoryEntry<T> = {
+  label: string;
+  detail: string;
+  before: T;
+  after: T;
+};
+
+export type History<T> = {
+  past: HistoryEntry<T>[]; // oldest first
+  future: HistoryEntry<T>[]; // next redo first
+};
+
+const historyLimit = 100;
+
+export function emptyHistory<T>(): History<T> {
+  return { past: [], future: [] };
+}
+
+// Recording a new action drops the redo branch.
+export function pushHistory<T>(
+  h: History<T>,
+  entry: HistoryEntry<T>
+): History<T> {
+  return { past: [...h.past, entry].slice(-historyLimit), future: [] };
+}
+
+export function undoHistory<T>(
+  h: History<T>
+): { history: History<T>; entry: HistoryEntry<T> } | null {
+  const entry = h.past[h.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: h.past.slice(0, -1), future: [entry, ...h.future] },
+    entry,
+  };
+}
+
+export function redoHistory<T>(
+  h: History<T>
+): { history: History<T>; entry: HistoryEntry<T> } | null {
+  const entry = h.future[0];
+  if (!entry) return null;
+  return {
+    history: { past: [...h.past, entry], future: h.future.slice(1) },
+    entry,
+  };
+}
+
+// Rewrites every snapshot, e.g. when a change made outside the history (a
+// category rename) has to reach the states undo and redo bring back.
+export function mapHistory<T>(h: History<T>, fn: (s: T) => T): History<T> {
+  const entry = (e: HistoryEntry<T>) => ({
+    ...e,
+    before: fn(e.before),
+    after: fn(e.after),
+  });
+  return { past: h.past.map(entry), future: h.future.map(entry) };
+}
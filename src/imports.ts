@@ -0,0 +1,86 @@
+import { normalizeRows, type BankAdapter, type IndexedRow } from "./adapters";
+import type { RawRow } from "./parse";
+import { hashText, type Session, type SessionFile } from "./session";
+
+// ---- Combining several uploaded statements into one dataset ----
+
+// An uploaded CSV before its layout is known.
+export type ParsedFile = {
+  name: string; // includes the folder path for folder uploads
+  hash: string;
+  headers: string[];
+  rows: RawRow[];
+};
+
+export type ImportedFile = Omit<SessionFile, "count"> & { rows: RawRow[] };
+
+export function importedFile(p: ParsedFile, source: string): ImportedFile {
+  return { name: p.name, hash: p.hash, source, account: source, rows: p.rows };
+}
+
+export type CombinedRow = IndexedRow & {
+  file: number; // index into the file list
+  fileHash: string;
+};
+
+// Files are combined in name order so the same selection always yields the same ids.
+export function sortFiles<T extends { name: string }>(files: T[]): T[] {
+  return [...files].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Each file is read with its own adapter; row indexes count within the file.
+export function combineFiles(
+  files: ImportedFile[],
+  adapters: BankAdapter[],
+  dateField: string
+): CombinedRow[] {
+  return files.flatMap((f, file) =>
+    normalizeRows(f.rows, adapters[file], dateField).map((r) => ({
+      ...r,
+      file,
+      fileHash: f.hash,
+    }))
+  );
+}
+
+// The file's hash and the raw row's position in it: ids (and the edits saved
+// against them) survive filter changes, file order and a change of source.
+export function rowId(r: CombinedRow): string {
+  return `${r.fileHash}|${r.index}`;
+}
+
+// Session key: the file's own hash for one file, a hash of the hashes otherwise.
+export async function filesHash(files: ImportedFile[]): Promise<string> {
+  if (files.length === 1) return files[0].hash;
+  return hashText(files.map((f) => f.hash).join("\n"));
+}
+
+export function packFiles(files: ImportedFile[]): {
+  rawRows: RawRow[];
+  files: SessionFile[];
+} {
+  return {
+    rawRows: files.flatMap((f) => f.rows),
+    files: files.map(({ rows, ...f }) => ({ ...f, count: rows.length })),
+  };
+}
+
+// Sessions with manual rows only have an empty file list.
+export function sessionFiles(s: Session): ImportedFile[] {
+  if (!s.files)
+    return [
+      {
+        name: s.fileName,
+        hash: s.hash,
+        source: s.source,
+        account: s.source,
+        rows: s.rawRows,
+      },
+    ];
+  let start = 0;
+  return s.files.map(({ count, ...f }) => {
+    const rows = s.rawRows.slice(start, start + count);
+    start += count;
+    return { ...f, rows };
+  });
+}
@@ -0,0 +1,343 @@
+import {
+  chatRequest,
+  replyText,
+  sendsSchema,
+  type LlmProvider,
+} from "./providers";
+
+// ---- LLM classification of merchant names ----
+// Names go out in chunks, a few requests at a time. Rate limits (429),
+// server errors (5xx) and network failures are retried with exponential
+// backoff; other errors fail the chunk at once. Failed chunks fall back to
+// the caller's heuristic, and a cancelled run keeps what already came back.
+//
+// Replies are requested as structured output where the provider supports it
+// (a JSON schema listing the allowed names and categories) and checked
+// anyway: keys are matched to the input names, misspelled ones to the
+// nearest name, and categories to the taxonomy. Names without a valid answer
+// are asked about once more, then left to the heuristic.
+
+export type ChunkState =
+  | "waiting"
+  | "running"
+  | "retrying" // waiting out the backoff before the next attempt
+  | "done"
+  | "failed"
+  | "cancelled";
+
+export type ChunkStatus = {
+  names: string[];
+  state: ChunkState;
+  attempts: number;
+  error: string; // last error; cleared when the chunk succeeds
+  fallback: string[]; // names the heuristic classified
+};
+
+export type ClassifyOptions = {
+  provider: LlmProvider;
+  apiKey: string;
+  model: string;
+  chunkSize?: number;
+  concurrency?: number; // requests in flight at once
+  retries?: number; // extra attempts after a retryable error
+  backoffMs?: number; // first retry delay, doubled on every further attempt
+  reask?: boolean; // ask again about names without a valid answer (default true)
+  signal?: AbortSignal;
+  onProgress?: (chunks: ChunkStatus[]) => void;
+  fetchFn?: typeof fetch;
+};
+
+export type ClassifyResult = {
+  mapping: Record<string, string>; // name → category
+  chunks: ChunkStatus[];
+  fallback: string[]; // names classified by the heuristic
+  cancelled: boolean;
+};
+
+type Entry = { name: string; category: string };
+
+type Attempt =
+  | { ok: true; entries: Entry[] }
+  | { ok: false; retry: boolean; error: string; wait: number | null };
+
+// The reply format asked for matches the schema when one is sent.
+function prompt(
+  names: string[],
+  categories: string[],
+  structured: boolean
+): string {
+  const format = structured
+    ? `Return a JSON object with a "results" array holding one {"name", "category"} entry per name, with the name copied EXACTLY.`
+    : "Return a single valid JSON object with keys = original names EXACTLY and values = one category string.";
+  return `Classify each transaction/merchant name into one of these categories: ${categories.join(
+    ", "
+  )}.\n${format}\nNames:\n${names.map((n, i) => `${i + 1}. ${n}`).join("\n")}`;
+}
+
+// The reply format: one entry per name, both limited to the allowed values.
+export function responseSchema(names: string[], categories: string[]) {
+  return {
+    type: "json_schema",
+    json_schema: {
+      name: "classification",
+      strict: true,
+      schema: {
+        type: "object",
+        properties: {
+          results: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string", enum: names },
+                category: { type: "string", enum: categories },
+              },
+              required: ["name", "category"],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ["results"],
+        additionalProperties: false,
+      },
+    },
+  };
+}
+
+// Entries in the model's reply: the schema's `results` list, or a plain
+// { name: category } object from models without structured output. Null
+// when the reply holds no JSON object.
+export function parseReply(text: unknown): Entry[] | null {
+  if (typeof text !== "string") return null;
+  const m = text.trim().match(/\{[\s\S]*\}/);
+  if (!m) return null;
+  let obj: unknown;
+  try {
+    obj = JSON.parse(m[0]);
+  } catch {
+    return null;
+  }
+  if (!obj || typeof obj !== "object" || Array.isArray(obj)) return null;
+  const results = (obj as { results?: unknown }).results;
+  const pairs = Array.isArray(results)
+    ? results.map((r) => [r?.name, r?.category])
+    : Object.entries(obj);
+  return pairs
+    .filter(([n, c]) => typeof n === "string" && typeof c === "string")
+    .map(([name, category]) => ({ name, category }));
+}
+
+const normalize = (s: string) =>
+  s
+    .toLowerCase()
+    .replace(/^\s*\d+[.)]\s*/, "") // "3. Conad", as numbered in the prompt
+    .replace(/["'`]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++)
+      row[j] = Math.min(
+        prev[j] + 1,
+        row[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// The input name a reply key stands for: exact, then ignoring case, spacing,
+// quotes and numbering, then the single nearest name within a few edits.
+export function matchName(key: string, names: string[]): string | null {
+  if (names.includes(key)) return key;
+  const k = normalize(key);
+  const same = names.filter((n) => normalize(n) === k);
+  if (same.length) return same[0];
+  let best: string | null = null;
+  let bestDistance = Math.max(2, Math.floor(k.length / 5)) + 1;
+  let tie = false;
+  for (const n of names) {
+    const d = editDistance(k, normalize(n));
+    if (d < bestDistance) [best, bestDistance, tie] = [n, d, false];
+    else if (d === bestDistance) tie = true;
+  }
+  return tie ? null : best;
+}
+
+// The allowed category an answer names: exact, ignoring case, or the last
+// part of a "Parent:Child" path.
+export function matchCategory(
+  answer: string,
+  categories: string[]
+): string | null {
+  if (categories.includes(answer)) return answer;
+  const last = normalize(answer.split(/:|›|>/).pop() ?? "");
+  return categories.find((c) => normalize(c) === last) ?? null;
+}
+
+// Valid answers per input name, and the names still without one. A name
+// answered twice keeps its first valid answer.
+export function checkReply(
+  entries: Entry[],
+  names: string[],
+  categories: string[]
+): { valid: Record<string, string>; invalid: string[] } {
+  const valid: Record<string, string> = {};
+  for (const e of entries) {
+    const name = matchName(e.name, names);
+    const category = matchCategory(e.category, categories);
+    if (name && category && !(name in valid)) valid[name] = category;
+  }
+  return { valid, invalid: names.filter((n) => !(n in valid)) };
+}
+
+async function requestChunk(
+  names: string[],
+  categories: string[],
+  o: ClassifyOptions
+): Promise<Attempt> {
+  const { url, init } = chatRequest(o.provider, o.apiKey, o.model, {
+    system:
+      "You are a meticulous financial transaction classifier. Only output strict JSON with no extra commentary.",
+    user: prompt(names, categories, sendsSchema(o.provider)),
+    schema: responseSchema(names, categories),
+  });
+  let res: Response;
+  try {
+    res = await (o.fetchFn ?? fetch)(url, { ...init, signal: o.signal });
+  } catch (e) {
+    return { ok: false, retry: true, error: String(e), wait: null };
+  }
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    const after = parseFloat(res.headers.get("Retry-After") ?? "");
+    return {
+      ok: false,
+      retry: res.status === 429 || res.status >= 500,
+      error: `HTTP ${res.status} ${text}`.trim().slice(0, 200),
+      wait: isNaN(after) ? null : Math.min(after, 60) * 1000,
+    };
+  }
+  const data = await res.json().catch(() => null);
+  const entries = parseReply(replyText(o.provider, data));
+  if (!entries)
+    return {
+      ok: false,
+      retry: false,
+      error: "The model did not return a JSON object.",
+      wait: null,
+    };
+  return { ok: true, entries };
+}
+
+// Resolves after `ms`, or as soon as the signal aborts.
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+}
+
+export async function classifyNames(
+  names: string[],
+  categories: string[],
+  fallback: (name: string) => string,
+  o: ClassifyOptions
+): Promise<ClassifyResult> {
+  const size = o.chunkSize ?? 40; // keep prompts compact
+  const retries = o.retries ?? 4;
+  const backoff = o.backoffMs ?? 1000;
+  const chunks: ChunkStatus[] = [];
+  for (let i = 0; i < names.length; i += size)
+    chunks.push({
+      names: names.slice(i, i + size),
+      state: "waiting",
+      attempts: 0,
+      error: "",
+      fallback: [],
+    });
+  const mapping: Record<string, string> = {};
+  const update = (i: number, patch: Partial<ChunkStatus>) => {
+    chunks[i] = { ...chunks[i], ...patch };
+    o.onProgress?.([...chunks]);
+  };
+
+  // One request with retries: the reply's entries, or null once the chunk
+  // has failed or been cancelled
+  async function request(i: number, asked: string[]): Promise<Entry[] | null> {
+    const stop = (patch: Partial<ChunkStatus>) => {
+      update(i, patch);
+      return null;
+    };
+    for (let retry = 0; ; retry++) {
+      update(i, { state: "running", attempts: chunks[i].attempts + 1 });
+      const r = await requestChunk(asked, categories, o);
+      if (o.signal?.aborted) return stop({ state: "cancelled" });
+      if (r.ok) return r.entries;
+      if (!r.retry || retry >= retries)
+        return stop({ state: "failed", error: r.error });
+      update(i, { state: "retrying", error: r.error });
+      // jitter keeps parallel chunks from retrying in lockstep
+      const delay = backoff * 2 ** retry * (0.75 + Math.random() / 2);
+      await sleep(r.wait ?? delay, o.signal);
+      if (o.signal?.aborted) return stop({ state: "cancelled" });
+    }
+  }
+
+  async function run(i: number) {
+    const asked = chunks[i].names;
+    const first = await request(i, asked);
+    if (!first) return;
+    const { valid, invalid } = checkReply(first, asked, categories);
+    let missing = invalid;
+    if (missing.length && o.reask !== false) {
+      const again = await request(i, missing);
+      if (again)
+        Object.assign(valid, checkReply(again, missing, categories).valid);
+      // a cancelled re-ask keeps the first answers; a failed one falls back
+      else if (chunks[i].state === "cancelled") {
+        Object.assign(mapping, valid);
+        return;
+      }
+      missing = asked.filter((n) => !(n in valid));
+    }
+    Object.assign(mapping, valid);
+    for (const n of missing) mapping[n] = fallback(n);
+    update(i, {
+      state: "done",
+      error: missing.length
+        ? `No valid category for ${missing.length} of ${asked.length} names.`
+        : "",
+      fallback: missing,
+    });
+  }
+
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length && !o.signal?.aborted) await run(next++);
+  };
+  const workers = Math.max(1, Math.min(o.concurrency ?? 3, chunks.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  chunks.forEach((c, i) => {
+    if (c.state === "waiting") update(i, { state: "cancelled" });
+    if (c.state !== "failed") return;
+    for (const n of c.names) mapping[n] = fallback(n);
+    update(i, { fallback: c.names });
+  });
+  return {
+    mapping,
+    chunks,
+    fallback: chunks.flatMap((c) => c.fallback),
+    cancelled: !!o.signal?.aborted,
+  };
+}
@@ -0,0 +1,70 @@
+import { parseAmount } from "./parse";
+import { randomId } from "./session";
+
+// ---- Manually entered transactions ----
+// Cash spending and anything no statement covers. Manual rows live in the
+// working session next to the uploaded files and join the table with the
+// same fields as imported rows, marked by their Source.
+
+export type ManualRow = {
+  id: string; // "manual-…", also the table row id
+  Date: string; // YYYY-MM-DD
+  Type: string; // Expense or Income
+  Amount: string; // absolute, like the table's Amount
+  Currency: string;
+  Category: string;
+  Name: string;
+  Account: string;
+  Notes: string;
+};
+
+export const manualSource = "Manual entry";
+
+export const manualTypes = ["Expense", "Income"];
+
+export function newManualId(): string {
+  return `manual-${randomId()}`;
+}
+
+export function isManualId(id: string): boolean {
+  return id.startsWith("manual-");
+}
+
+// Why the row cannot be saved, or "" when it can.
+export function manualProblem(r: Omit<ManualRow, "id">): string {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(r.Date)) return "Pick a date.";
+  if (!(parseFloat(r.Amount) > 0)) return "The amount must be above zero.";
+  if (!/^[A-Z]{3}$/.test(r.Currency))
+    return "The currency must be a three-letter code.";
+  if (!r.Name.trim()) return "The row needs a name.";
+  if (!r.Category) return "Pick a category.";
+  return "";
+}
+
+// Quick-add line: `[date] amount [currency] name [#category] [@account]`.
+// A leading "+" on the amount makes the row income; everything else is an
+// expense. An upper-case three-letter word right after the amount is the
+// currency. The category tag is returned as typed, "" when there is none.
+export function parseQuickAdd(
+  text: string,
+  defaults: { Date: string; Currency: string; Account: string }
+): Omit<ManualRow, "id"> | null {
+  const tokens = text.trim().split(/\s+/).filter(Boolean);
+  const row = { ...defaults, Type: "Expense", Amount: "", Category: "" };
+  const name: string[] = [];
+  let amountAt = -1;
+  tokens.forEach((t, i) => {
+    if (t.startsWith("#") && t.length > 1) row.Category = t.slice(1);
+    else if (t.startsWith("@") && t.length > 1) row.Account = t.slice(1);
+    else if (i === 0 && /^\d{4}-\d{2}-\d{2}$/.test(t)) row.Date = t;
+    else if (amountAt < 0 && /^[+-]?\d[\d.,]*$/.test(t)) {
+      amountAt = i;
+      row.Type = t.startsWith("+") ? "Income" : "Expense";
+      row.Amount = Math.abs(parseAmount(t)).toFixed(2);
+    } else if (i === amountAt + 1 && amountAt >= 0 && /^[A-Z]{3}$/.test(t))
+      row.Currency = t;
+    else name.push(t);
+  });
+  if (amountAt < 0 || !name.length) return null;
+  return { ...row, Name: name.join(" "), Notes: "" };
+}
@@ -0,0 +1,155 @@
+import { getAdapter, type BankAdapter, type NormalizedRow } from "./adapters";
+import {
+  parseDate,
+  parseDecimal,
+  type DateFormat,
+  type DecimalStyle,
+  type RawRow,
+} from "./parse";
+
+// ---- Column mapping profiles for CSV layouts no bank adapter recognizes ----
+
+export type MappedField =
+  "Date" | "Amount" | "Currency" | "Name" | "State" | "Fee";
+
+export const mappedFields: MappedField[] = [
+  "Date",
+  "Amount",
+  "Currency",
+  "Name",
+  "State",
+  "Fee",
+];
+
+// signed: one Amount column, negative = money out
+// inverted: one Amount column, positive = money out (credit card statements)
+// debitCredit: separate unsigned Debit and Credit columns
+export type SignConvention = "signed" | "inverted" | "debitCredit";
+
+export type MappingProfile = {
+  name: string;
+  headers: string[];
+  columns: Partial<Record<MappedField, string>>;
+  debitColumn: string;
+  creditColumn: string;
+  dateFormat: DateFormat;
+  decimal: DecimalStyle;
+  sign: SignConvention;
+  defaultCurrency: string;
+  completedValue: string; // State value that counts as booked
+};
+
+const storageKey = "rcvt_mapping_profiles";
+
+export function loadMappingProfiles(): MappingProfile[] {
+  try {
+    const s = localStorage.getItem(storageKey);
+    const list = s ? JSON.parse(s) : [];
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveMappingProfiles(profiles: MappingProfile[]) {
+  localStorage.setItem(storageKey, JSON.stringify(profiles));
+}
+
+const headerSetKey = (headers: string[]) =>
+  [...headers]
+    .map((h) => h.trim())
+    .sort()
+    .join("\u0001");
+
+// Profiles are reused only for the exact same header set (order-insensitive).
+export function findProfileForHeaders(
+  profiles: MappingProfile[],
+  headers: string[]
+): MappingProfile | null {
+  const key = headerSetKey(headers);
+  return profiles.find((p) => headerSetKey(p.headers) === key) || null;
+}
+
+const guesses: Record<MappedField, RegExp> = {
+  Date: /date|data|datum|fecha|booking/i,
+  Amount: /amount|importo|betrag|value|sum/i,
+  Currency: /currency|valuta|ccy|währung/i,
+  Name: /description|name|payee|merchant|descrizione|details|memo/i,
+  State: /state|status|contabilizz/i,
+  Fee: /fee|commission|commissioni/i,
+};
+
+// Starting point for the wizard: first header whose name looks like each field.
+export function guessProfile(name: string, headers: string[]): MappingProfile {
+  const columns: Partial<Record<MappedField, string>> = {};
+  for (const f of mappedFields) {
+    const hit = headers.find(
+      (h) => guesses[f].test(h) && !Object.values(columns).includes(h)
+    );
+    if (hit) columns[f] = hit;
+  }
+  const debitColumn = headers.find((h) => /debit|addebit|out/i.test(h)) || "";
+  const creditColumn =
+    headers.find((h) => /credit|accredit|\bin\b/i.test(h)) || "";
+  return {
+    name,
+    headers,
+    columns,
+    debitColumn,
+    creditColumn,
+    dateFormat: "YYYY-MM-DD",
+    decimal: "auto",
+    sign:
+      !columns.Amount && debitColumn && creditColumn ? "debitCredit" : "signed",
+    defaultCurrency: "EUR",
+    completedValue: "COMPLETED",
+  };
+}
+
+export function profileAdapter(profile: MappingProfile): BankAdapter {
+  const col = (row: RawRow, field: MappedField) => {
+    const h = profile.columns[field];
+    return h ? (row[h] ?? "").toString().trim() : "";
+  };
+  const num = (value: string) => parseDecimal(value, profile.decimal);
+  const adapter: BankAdapter = {
+    id: profile.name,
+    headers: profile.headers,
+    dateFields: [profile.columns.Date || "Date"],
+    dateFormat: profile.dateFormat,
+    normalize(row): NormalizedRow {
+      let amount = num(col(row, "Amount"));
+      if (profile.sign === "inverted") amount = -amount;
+      if (profile.sign === "debitCredit") {
+        const debit = Math.abs(num(row[profile.debitColumn] ?? ""));
+        const credit = Math.abs(num(row[profile.creditColumn] ?? ""));
+        amount = credit - debit;
+      }
+      const state = col(row, "State");
+      const completed =
+        !profile.columns.State ||
+        state.toUpperCase() === profile.completedValue.trim().toUpperCase();
+      return {
+        Date: parseDate(col(row, "Date"), profile.dateFormat),
+        Amount: amount,
+        Currency: col(row, "Currency") || profile.defaultCurrency,
+        Name: col(row, "Name"),
+        State: completed ? "COMPLETED" : state.toUpperCase() || "PENDING",
+        Fee: num(col(row, "Fee")),
+        Balance: "",
+        Kind: "",
+        Timestamp: "",
+      };
+    },
+  };
+  return adapter;
+}
+
+// A "source" setting names either a saved mapping profile or a bank adapter.
+export function sourceAdapter(
+  source: string,
+  profiles: MappingProfile[]
+): BankAdapter {
+  const profile = profiles.find((p) => p.name === source);
+  return profile ? profileAdapter(profile) : getAdapter(source);
+}
@@ -0,0 +1,151 @@
+// ---- Parsing helpers shared by the bank adapters and the mapping wizard ----
+
+export type RawRow = Record<string, string>;
+
+export type DateFormat = "YYYY-MM-DD" | "DD/MM/YYYY" | "MM/DD/YYYY";
+
+export const dateFormats: DateFormat[] = [
+  "YYYY-MM-DD",
+  "DD/MM/YYYY",
+  "MM/DD/YYYY",
+];
+
+export function toISODate(dateStr: string): string {
+  // Accepts: "YYYY-MM-DD HH:MM:SS" or "YYYY-MM-DD"
+  if (!dateStr) return "";
+  const d = dateStr.trim().slice(0, 10);
+  // naive validation
+  if (/^\d{4}-\d{2}-\d{2}$/.test(d)) return d;
+  const dt = new Date(dateStr);
+  if (!isNaN(dt as unknown as number)) return dt.toISOString().slice(0, 10);
+  return "";
+}
+
+// Day-first and month-first dates are ambiguous, so the caller picks the format.
+// Any separator (/ - .) is accepted; 2-digit years are read as 20xx.
+export function parseDate(input: string, format: DateFormat): string {
+  const s = (input || "").trim();
+  if (!s) return "";
+  if (format === "YYYY-MM-DD") return toISODate(s);
+  const m = s.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})(?!\d)/);
+  if (!m) return "";
+  const [a, b] = [m[1], m[2]];
+  const [day, month] = format === "DD/MM/YYYY" ? [a, b] : [b, a];
+  const year = m[3].length === 2 ? `20${m[3]}` : m[3];
+  if (Number(month) < 1 || Number(month) > 12) return "";
+  if (Number(day) < 1 || Number(day) > 31) return "";
+  return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+}
+
+// Inverse of parseDate for export; non-ISO input is passed through unchanged.
+export function formatDate(iso: string, format: DateFormat): string {
+  const m = (iso || "").match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m || format === "YYYY-MM-DD") return iso;
+  const [, y, mo, d] = m;
+  return format === "DD/MM/YYYY" ? `${d}/${mo}/${y}` : `${mo}/${d}/${y}`;
+}
+
+export function parseAmount(input: string): number {
+  let s = (input ?? "").toString().trim();
+  if (!s) return 0;
+  s = s.replace(/[^0-9.,\-+]/g, "");
+  if (!s) return 0;
+  let sign = 1;
+  if (s.includes("-")) sign = -1;
+  s = s.replace(/-/g, "");
+  const hasComma = s.includes(",");
+  const hasDot = s.includes(".");
+  if (hasComma && hasDot) {
+    const lastComma = s.lastIndexOf(",");
+    const lastDot = s.lastIndexOf(".");
+    if (lastComma > lastDot) {
+      s = s.replace(/\./g, "").replace(/,/g, ".");
+    } else {
+      s = s.replace(/,/g, "");
+    }
+  } else if (hasComma && !hasDot) {
+    s = s.replace(/,/g, ".");
+  } else {
+    // only dot or no separator -> already fine
+  }
+  const num = parseFloat(s);
+  return isNaN(num) ? 0 : sign * num;
+}
+
+export type DecimalStyle = "auto" | "dot" | "comma";
+
+// Like parseAmount, but lets the caller force the decimal separator when the
+// auto-detection would misread values such as "1.234" (EU thousands).
+export function parseDecimal(input: string, style: DecimalStyle): number {
+  if (style === "auto") return parseAmount(input);
+  const s = (input ?? "").toString();
+  const normalized =
+    style === "comma"
+      ? s.replace(/\./g, "").replace(/,/g, ".")
+      : s.replace(/,/g, "");
+  return parseAmount(normalized);
+}
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [",", ";", "\t"];
+  let best = ",";
+  let bestCount = 0;
+  for (const d of candidates) {
+    const count = headerLine.split(d).length - 1;
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cur += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      out.push(cur);
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur);
+  return out;
+}
+
+export function fallbackParse(csvText: string): {
+  data: RawRow[];
+  fields: string[];
+  errors: string[];
+} {
+  // Simple CSV parser: one record per line, quoted fields and ,/;/tab delimiters.
+  const lines = csvText
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter(Boolean);
+  if (!lines.length) return { data: [], fields: [], errors: ["Empty file"] };
+  const delimiter = detectDelimiter(lines[0]);
+  const headers = splitCsvLine(lines[0], delimiter).map((s) => s.trim());
+  const rows = lines.slice(1).map((line) => {
+    const cols = splitCsvLine(line, delimiter);
+    const rec: RawRow = {};
+    headers.forEach((h, i) => (rec[h] = (cols[i] || "").trim()));
+    return rec;
+  });
+  return { data: rows, fields: headers, errors: [] };
+}
@@ -0,0 +1,253 @@
+// ---- LLM providers ----
+// Where classification requests go and how they are shaped. OpenAI, Azure
+// OpenAI and local servers (Ollama, llama.cpp) share the chat completions
+// API (Azure picks the model by deployment in the URL); Anthropic has its
+// own messages API. Base URL, auth header and model list can be changed per
+// provider and are kept in localStorage.
+
+export type ProviderApi = "openai" | "azure" | "anthropic";
+
+export type AuthStyle = "bearer" | "api-key" | "x-api-key" | "none";
+
+export const authStyles: { id: AuthStyle; label: string }[] = [
+  { id: "bearer", label: "Authorization: Bearer" },
+  { id: "api-key", label: "api-key header" },
+  { id: "x-api-key", label: "x-api-key header" },
+  { id: "none", label: "No key" },
+];
+
+export type LlmProvider = {
+  id: string;
+  label: string;
+  api: ProviderApi;
+  baseUrl: string; // without the trailing /chat/completions or /messages
+  auth: AuthStyle;
+  models: string[]; // model names, or deployment names on Azure
+  apiVersion: string; // Azure's api-version query parameter
+  structured: boolean; // the server accepts a JSON schema response format
+};
+
+export const defaultProviders: LlmProvider[] = [
+  {
+    id: "openai",
+    label: "OpenAI",
+    api: "openai",
+    baseUrl: "https://api.openai.com/v1",
+    auth: "bearer",
+    models: ["gpt-4o-mini", "gpt-4o", "gpt-4.1-mini"],
+    apiVersion: "",
+    structured: true,
+  },
+  {
+    id: "azure",
+    label: "Azure OpenAI",
+    api: "azure",
+    baseUrl: "https://YOUR-RESOURCE.openai.azure.com/openai/deployments",
+    auth: "api-key",
+    models: ["gpt-4o-mini"],
+    apiVersion: "2024-10-21",
+    structured: true,
+  },
+  {
+    id: "anthropic",
+    label: "Anthropic",
+    api: "anthropic",
+    baseUrl: "https://api.anthropic.com/v1",
+    auth: "x-api-key",
+    models: ["claude-3-5-haiku-latest", "claude-3-7-sonnet-latest"],
+    apiVersion: "",
+    structured: false,
+  },
+  {
+    id: "ollama",
+    label: "Ollama (local)",
+    api: "openai",
+    baseUrl: "http://localhost:11434/v1",
+    auth: "none",
+    models: ["llama3.1", "qwen2.5", "mistral"],
+    apiVersion: "",
+    structured: true,
+  },
+  {
+    id: "llamacpp",
+    label: "llama.cpp server (local)",
+    api: "openai",
+    baseUrl: "http://localhost:8080/v1",
+    auth: "none",
+    models: ["default"],
+    apiVersion: "",
+    structured: true,
+  },
+  {
+    id: "custom",
+    label: "Other OpenAI-compatible",
+    api: "openai",
+    baseUrl: "http://localhost:8787/v1",
+    auth: "bearer",
+    models: ["gpt-4o-mini"],
+    apiVersion: "",
+    structured: true,
+  },
+];
+
+const storageKey = "rcvt_llm_providers";
+
+// Requests stay on this machine only when the base URL points at it.
+export function isLocalUrl(url: string): boolean {
+  try {
+    const host = new URL(url).hostname;
+    return ["localhost", "127.0.0.1", "[::1]"].includes(host);
+  } catch {
+    return false;
+  }
+}
+
+// Built-in providers with the user's changes; unknown ids are dropped.
+export function loadProviders(): LlmProvider[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey) || "[]");
+    if (!Array.isArray(saved)) return defaultProviders;
+    return defaultProviders.map((p) => ({
+      ...p,
+      ...saved.find((s) => s?.id === p.id),
+      api: p.api,
+    }));
+  } catch {
+    return defaultProviders;
+  }
+}
+
+export function saveProviders(providers: LlmProvider[]) {
+  localStorage.setItem(storageKey, JSON.stringify(providers));
+}
+
+export function findProvider(
+  providers: LlmProvider[],
+  id: string
+): LlmProvider {
+  return providers.find((p) => p.id === id) ?? providers[0];
+}
+
+export type ChatRequest = {
+  system: string;
+  user: string;
+  schema?: object; // an OpenAI `response_format`, sent when supported
+  maxTokens?: number;
+};
+
+// Whether `ChatRequest.schema` reaches the model; Anthropic's messages API
+// has no response format.
+export function sendsSchema(p: LlmProvider): boolean {
+  return p.api !== "anthropic" && p.structured;
+}
+
+function authHeaders(p: LlmProvider, apiKey: string): Record<string, string> {
+  if (p.auth === "none" || !apiKey) return {};
+  if (p.auth === "bearer") return { Authorization: `Bearer ${apiKey}` };
+  return { [p.auth]: apiKey };
+}
+
+// URL and fetch options for one chat request to the provider.
+export function chatRequest(
+  p: LlmProvider,
+  apiKey: string,
+  model: string,
+  req: ChatRequest
+): { url: string; init: RequestInit } {
+  const base = p.baseUrl.replace(/\/+$/, "");
+  const headers = {
+    "Content-Type": "application/json",
+    ...authHeaders(p, apiKey),
+  };
+  if (p.api === "anthropic")
+    return {
+      url: `${base}/messages`,
+      init: {
+        method: "POST",
+        headers: {
+          ...headers,
+          "anthropic-version": "2023-06-01",
+          // the app calls the API straight from the browser
+          "anthropic-dangerous-direct-browser-access": "true",
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: req.maxTokens ?? 4096,
+          temperature: 0.1,
+          system: req.system,
+          messages: [{ role: "user", content: req.user }],
+        }),
+      },
+    };
+  const url =
+    p.api === "azure"
+      ? `${base}/${encodeURIComponent(model)}/chat/completions` +
+        `?api-version=${encodeURIComponent(p.apiVersion)}`
+      : `${base}/chat/completions`;
+  return {
+    url,
+    init: {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model,
+        temperature: 0.1,
+        ...(req.maxTokens && { max_tokens: req.maxTokens }),
+        messages: [
+          { role: "system", content: req.system },
+          { role: "user", content: req.user },
+        ],
+        ...(req.schema && sendsSchema(p) && { response_format: req.schema }),
+      }),
+    },
+  };
+}
+
+// The text of the model's answer in a parsed response body.
+export function replyText(p: LlmProvider, data: unknown): unknown {
+  const d = data as {
+    choices?: { message?: { content?: unknown } }[];
+    content?: { text?: unknown }[];
+  } | null;
+  return p.api === "anthropic"
+    ? d?.content?.[0]?.text
+    : d?.choices?.[0]?.message?.content;
+}
+
+// Sends a one-word prompt: checks the URL, the key and the model at once.
+export async function testConnection(
+  p: LlmProvider,
+  apiKey: string,
+  model: string,
+  fetchFn: typeof fetch = fetch
+): Promise<{ ok: boolean; message: string }> {
+  const { url, init } = chatRequest(p, apiKey, model, {
+    system: "You are a connection test.",
+    user: "Reply with the word OK.",
+    maxTokens: 5,
+  });
+  const started = Date.now();
+  try {
+    const res = await fetchFn(url, init);
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      return {
+        ok: false,
+        message: `HTTP ${res.status} ${text}`.trim().slice(0, 200),
+      };
+    }
+    const reply = replyText(p, await res.json().catch(() => null));
+    if (typeof reply !== "string")
+      return { ok: false, message: "Connected, but the reply has no text." };
+    return {
+      ok: true,
+      message: `Connected to ${model} in ${Date.now() - started} ms.`,
+    };
+  } catch (e) {
+    // fetch only says "Failed to fetch": unreachable, or blocked by CORS
+    return {
+      ok: false,
+      message: `No response from ${url} (${String(e)}). Is the server running and does it allow requests from this page?`,
+    };
+  }
+}
@@ -0,0 +1,145 @@
+import type { AnalyticsRow } from "./analytics";
+import { merchantKey, type CategoryRule } from "./rules";
+
+// ---- Recurring payments ----
+// Rows (other than transfers) are grouped by merchantKey, type and currency; a group is recurring
+// when the gaps between its dates fit one cadence and the amounts stay close.
+
+export type Cadence = "weekly" | "monthly" | "yearly";
+
+export type RecurringRow = AnalyticsRow & { _id: string };
+
+export type PriceChange = { date: string; from: number; to: number };
+
+export type RecurringSeries = {
+  key: string; // merchant|type|currency
+  merchant: string; // merchantKey
+  name: string; // latest transaction name
+  type: string;
+  currency: string;
+  cadence: Cadence;
+  count: number;
+  average: number;
+  last: string;
+  next: string; // predicted
+  priceChanges: PriceChange[];
+  category: string; // of the latest row
+  ids: string[];
+};
+
+// Gap in days that counts as one period, and how many rows prove it.
+const cadences: { id: Cadence; min: number; max: number; minCount: number }[] =
+  [
+    { id: "weekly", min: 5, max: 9, minCount: 3 },
+    { id: "monthly", min: 25, max: 35, minCount: 3 },
+    { id: "yearly", min: 350, max: 380, minCount: 2 },
+  ];
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+const daysBetween = (a: string, b: string) =>
+  Math.round((Date.parse(b) - Date.parse(a)) / dayMs);
+
+const median = (xs: number[]) => {
+  const s = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(s.length / 2);
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+};
+
+// Same weekday next week, same day next month (clamped to its length), same date next year.
+export function nextCharge(date: string, cadence: Cadence): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  if (cadence === "weekly")
+    return new Date(d.getTime() + 7 * dayMs).toISOString().slice(0, 10);
+  const months = cadence === "monthly" ? 1 : 12;
+  const y = d.getUTCFullYear();
+  const m = d.getUTCMonth() + months;
+  const last = new Date(Date.UTC(y, m + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(y, m, Math.min(d.getUTCDate(), last)))
+    .toISOString()
+    .slice(0, 10);
+}
+
+function seriesCadence(dates: string[]): Cadence | null {
+  const gaps = dates.slice(1).map((d, i) => daysBetween(dates[i], d));
+  if (!gaps.length) return null;
+  const typical = median(gaps);
+  const c = cadences.find((x) => typical >= x.min && typical <= x.max);
+  if (!c || dates.length < c.minCount) return null;
+  // tolerate the odd skipped or shifted charge
+  const regular = gaps.filter((g) => g >= c.min && g <= c.max).length;
+  return regular / gaps.length >= 0.75 ? c.id : null;
+}
+
+export function detectRecurring(rows: RecurringRow[]): RecurringSeries[] {
+  const groups = new Map<string, RecurringRow[]>();
+  for (const r of rows) {
+    if (!/^\d{4}-\d{2}-\d{2}/.test(r.Date) || !r.Name) continue;
+    if (r.Type === "Transfer") continue; // own money moving between pockets
+    const key = `${merchantKey(r.Name)}|${r.Type}|${r.Currency}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)?.push(r);
+  }
+
+  const out: RecurringSeries[] = [];
+  for (const [key, group] of groups) {
+    if (group.length < 2) continue;
+    const sorted = [...group].sort((a, b) => a.Date.localeCompare(b.Date));
+    const cadence = seriesCadence(sorted.map((r) => r.Date.slice(0, 10)));
+    if (!cadence) continue;
+
+    // similar amounts: price changes are fine, unrelated purchases are not
+    const amounts = sorted.map((r) => Math.abs(parseFloat(r.Amount) || 0));
+    const typical = median(amounts);
+    if (!typical || amounts.some((a) => a < typical * 0.5 || a > typical * 1.5))
+      continue;
+
+    const priceChanges: PriceChange[] = [];
+    amounts.forEach((a, i) => {
+      if (i > 0 && Math.abs(a - amounts[i - 1]) >= 0.01)
+        priceChanges.push({
+          date: sorted[i].Date,
+          from: amounts[i - 1],
+          to: a,
+        });
+    });
+
+    const latest = sorted[sorted.length - 1];
+    const last = latest.Date.slice(0, 10);
+    out.push({
+      key,
+      merchant: key.split("|")[0],
+      name: latest.Name,
+      type: latest.Type,
+      currency: latest.Currency,
+      cadence,
+      count: sorted.length,
+      average: round(amounts.reduce((n, a) => n + a, 0) / amounts.length),
+      last,
+      next: nextCharge(last, cadence),
+      priceChanges,
+      category: latest.Category,
+      ids: sorted.map((r) => r._id),
+    });
+  }
+  // soonest next charge first
+  return out.sort(
+    (a, b) => a.next.localeCompare(b.next) || a.key.localeCompare(b.key)
+  );
+}
+
+// The merchant rule saved when the series was tagged, if any.
+export function seriesRule(
+  rules: CategoryRule[],
+  s: RecurringSeries
+): CategoryRule | undefined {
+  return rules.find(
+    (r) =>
+      r.match === "merchant" &&
+      r.pattern === s.merchant &&
+      r.type === s.type &&
+      r.currency === s.currency
+  );
+}
@@ -0,0 +1,167 @@
+import { randomId } from "./session";
+
+// ---- User-defined category rules ----
+// Ordered list; the first enabled rule that matches a row sets its Category
+// (and optionally Notes). Rules win over LLM results and the heuristics.
+
+// merchant: pattern is a merchantKey(), compared against merchantKey(Name)
+export type RuleMatch = "contains" | "exact" | "regex" | "merchant";
+
+export type CategoryRule = {
+  id: string;
+  enabled: boolean;
+  match: RuleMatch;
+  pattern: string;
+  minAmount: number | null; // compared against the absolute amount
+  maxAmount: number | null;
+  type: "" | "Expense" | "Income";
+  currency: string; // "" = any
+  category: string;
+  notes: string;
+  learned: boolean; // created from an inline Category edit
+};
+
+export type RuleTarget = {
+  Name: string;
+  Amount: number; // absolute
+  Type: string;
+  Currency: string;
+};
+
+const storageKey = "rcvt_rules";
+
+export function newRule(patch: Partial<CategoryRule> = {}): CategoryRule {
+  return {
+    id: randomId(),
+    enabled: true,
+    match: "contains",
+    pattern: "",
+    minAmount: null,
+    maxAmount: null,
+    type: "",
+    currency: "",
+    category: "OtherExpenses",
+    notes: "",
+    learned: false,
+    ...patch,
+  };
+}
+
+// Returns an error message for an invalid regex pattern, "" otherwise.
+export function ruleError(rule: CategoryRule): string {
+  if (!rule.pattern.trim()) return "Empty pattern";
+  if (rule.match !== "regex") return "";
+  try {
+    new RegExp(rule.pattern, "i");
+    return "";
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+// Reduces a transaction name to a stable merchant key: drops dates, masked
+// card numbers, payment-processor reference codes and store numbers, e.g.
+// "CONAD 0123 MILANO 12/08" and "Conad #77 Milano" both become "conad milano".
+export function merchantKey(name: string): string {
+  const key = (name || "")
+    .toLowerCase()
+    .replace(/\b\d{1,4}[/.-]\d{1,2}(?:[/.-]\d{2,4})?\b/g, " ") // dates
+    .replace(/(?:[*x]{2,}|\bcard\s*|\bcarta\s*)\d{2,4}\b/g, " ") // card suffixes
+    .replace(/\*\s*(?=[a-z]*\d)\w+/g, " ") // reference codes like *2K4L81
+    .replace(/#\s*\d+/g, " ") // store numbers
+    .replace(/\b\d+\b/g, " ") // remaining bare numbers
+    .replace(/[^\p{L}\p{N}&' ]+/gu, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return key || (name || "").trim().toLowerCase();
+}
+
+export function ruleMatches(rule: CategoryRule, row: RuleTarget): boolean {
+  if (!rule.enabled || ruleError(rule)) return false;
+  const name = row.Name.trim().toLowerCase();
+  const pattern = rule.pattern.trim().toLowerCase();
+  if (rule.match === "contains" && !name.includes(pattern)) return false;
+  if (rule.match === "exact" && name !== pattern) return false;
+  if (rule.match === "merchant" && merchantKey(row.Name) !== pattern)
+    return false;
+  if (rule.match === "regex" && !new RegExp(rule.pattern, "i").test(row.Name))
+    return false;
+  if (rule.minAmount !== null && row.Amount < rule.minAmount) return false;
+  if (rule.maxAmount !== null && row.Amount > rule.maxAmount) return false;
+  if (rule.type && row.Type !== rule.type) return false;
+  if (
+    rule.currency &&
+    row.Currency.toUpperCase() !== rule.currency.toUpperCase()
+  )
+    return false;
+  return true;
+}
+
+export function findRule(
+  rules: CategoryRule[],
+  row: RuleTarget
+): CategoryRule | null {
+  return rules.find((r) => ruleMatches(r, row)) || null;
+}
+
+const num = (x: unknown): number | null =>
+  typeof x === "number" && isFinite(x) ? x : null;
+
+const str = (x: unknown): string => (typeof x === "string" ? x : "");
+
+// Accepts an exported rules file (array of rules); unknown keys are dropped and
+// missing ones defaulted, so hand-written JSON only needs pattern + category.
+export function parseRulesJson(text: string): CategoryRule[] {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data)) throw new Error("Rules file must be a JSON array");
+  return data.map((x, i) => {
+    if (!x || typeof x !== "object")
+      throw new Error(`Rule ${i + 1} is not an object`);
+    if (!str(x.pattern) || !str(x.category))
+      throw new Error(`Rule ${i + 1} needs "pattern" and "category"`);
+    const match: RuleMatch = [
+      "contains",
+      "exact",
+      "regex",
+      "merchant",
+    ].includes(x.match)
+      ? x.match
+      : "contains";
+    const type = x.type === "Expense" || x.type === "Income" ? x.type : "";
+    return newRule({
+      enabled: x.enabled !== false,
+      match,
+      pattern: x.pattern,
+      minAmount: num(x.minAmount),
+      maxAmount: num(x.maxAmount),
+      type,
+      currency: str(x.currency),
+      category: x.category,
+      notes: str(x.notes),
+      learned: x.learned === true,
+    });
+  });
+}
+
+export function rulesToJson(rules: CategoryRule[]): string {
+  // ids are local bookkeeping; regenerated on import
+  const plain = rules.map((r) => {
+    const copy: Partial<CategoryRule> = { ...r };
+    delete copy.id;
+    return copy;
+  });
+  return JSON.stringify(plain, null, 2);
+}
+
+export function loadRules(): CategoryRule[] {
+  try {
+    const s = localStorage.getItem(storageKey);
+    return s ? parseRulesJson(s) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveRules(rules: CategoryRule[]) {
+  localStorage.setItem(storageKey, rulesToJson(rules));
+}
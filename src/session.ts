@@ -0,0 +1,148 @@
+import type { RawRow } from "./parse";
+import type { ManualRow } from "./manual";
+import type { Splits } from "./splits";
+
+// ---- Working sessions persisted in IndexedDB, keyed by a hash of the upload ----
+
+export type RowEdits = Record<string, Partial<Record<string, string>>>;
+
+// One uploaded statement; its rows are the next `count` entries of Session.rawRows.
+export type SessionFile = {
+  name: string;
+  hash: string;
+  source: string;
+  account: string;
+  count: number;
+};
+
+export type Session = {
+  hash: string;
+  name: string;
+  fileName: string;
+  source: string;
+  createdAt: string;
+  updatedAt: string;
+  rawRows: RawRow[];
+  edits: RowEdits;
+  deletedIds: string[];
+  categoryMap: Record<string, string>;
+  keptDuplicates?: string[]; // row ids reviewed as "not a duplicate"; absent in older sessions
+  splits?: Splits; // absent in older sessions
+  manualRows?: ManualRow[]; // absent in older sessions
+  files?: SessionFile[]; // absent in older single-file sessions
+};
+
+export type SessionSummary = Omit<
+  Session,
+  | "rawRows"
+  | "edits"
+  | "deletedIds"
+  | "categoryMap"
+  | "keptDuplicates"
+  | "splits"
+  | "manualRows"
+  | "files"
+> & {
+  rowCount: number;
+  editCount: number;
+};
+
+const dbName = "fintrack";
+const storeName = "sessions";
+
+// SHA-256 of the file. `crypto.subtle` only exists in secure contexts (https
+// or localhost); on a plain-http host the file gets a weaker FNV-1a hash.
+export async function hashText(text: string): Promise<string> {
+  const bytes = new TextEncoder().encode(text);
+  if (!globalThis.crypto?.subtle) return fnvHash(bytes);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Two 32-bit FNV-1a passes with different offsets, plus the length.
+function fnvHash(bytes: Uint8Array): string {
+  const pass = (h: number) => {
+    for (const b of bytes) h = Math.imul(h ^ b, 0x01000193);
+    return (h >>> 0).toString(16).padStart(8, "0");
+  };
+  return `fnv-${pass(0x811c9dc5)}${pass(0x050c5d1f)}-${bytes.length}`;
+}
+
+// A random id for stored records; `crypto.randomUUID` needs a secure context.
+export function randomId(): string {
+  if (typeof globalThis.crypto?.randomUUID === "function")
+    return crypto.randomUUID();
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(dbName, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(storeName, { keyPath: "hash" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const req = fn(db.transaction(storeName, mode).objectStore(storeName));
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function summarizeSession(s: Session): SessionSummary {
+  return {
+    hash: s.hash,
+    name: s.name,
+    fileName: s.fileName,
+    source: s.source,
+    createdAt: s.createdAt,
+    updatedAt: s.updatedAt,
+    rowCount: s.rawRows.length + (s.manualRows?.length ?? 0),
+    editCount:
+      Object.keys(s.edits).length +
+      s.deletedIds.length +
+      Object.keys(s.splits ?? {}).length,
+  };
+}
+
+export async function getSession(hash: string): Promise<Session | null> {
+  return (
+    (await withStore<Session | undefined>("readonly", (s) => s.get(hash))) ??
+    null
+  );
+}
+
+export async function putSession(session: Session): Promise<void> {
+  await withStore("readwrite", (s) => s.put(session));
+}
+
+export async function deleteSession(hash: string): Promise<void> {
+  await withStore("readwrite", (s) => s.delete(hash));
+}
+
+export async function getAllSessions(): Promise<Session[]> {
+  return withStore<Session[]>("readonly", (s) => s.getAll());
+}
+
+// Most recently updated first.
+export async function listSessions(): Promise<SessionSummary[]> {
+  const all = await getAllSessions();
+  return all
+    .map(summarizeSession)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
@@ -0,0 +1,70 @@
+// ---- Split transactions ----
+// One bank row divided into child lines with their own amount, category and
+// notes. Splits are stored per parent row id; the table and the export show
+// the children in place of the parent, sharing a SplitId.
+
+export type SplitLine = {
+  amount: string; // absolute, like the table's Amount
+  category: string;
+  notes: string;
+};
+
+export type Splits = Record<string, SplitLine[]>;
+
+const cents = (s: string) => Math.round((parseFloat(s) || 0) * 100);
+
+// Parent amount minus the lines, in the parent's units (0 when they add up).
+export function splitRemainder(total: string, lines: SplitLine[]): number {
+  return (cents(total) - lines.reduce((n, l) => n + cents(l.amount), 0)) / 100;
+}
+
+// Why the lines cannot be saved, or "" when they can.
+export function splitProblem(total: string, lines: SplitLine[]): string {
+  if (lines.length < 2) return "A split needs at least two lines.";
+  if (lines.some((l) => !(cents(l.amount) > 0)))
+    return "Every line needs an amount above zero.";
+  if (lines.some((l) => !l.category)) return "Every line needs a category.";
+  const sum = lines.reduce((n, l) => n + cents(l.amount), 0);
+  if (sum !== cents(total))
+    return `Lines add up to ${(sum / 100).toFixed(2)}, not ${(
+      cents(total) / 100
+    ).toFixed(2)}.`;
+  return "";
+}
+
+// Child id suffix; everything before it is the parent id.
+const childMark = "#split";
+
+export function splitParentId(id: string): string {
+  const at = id.indexOf(childMark);
+  return at < 0 ? id : id.slice(0, at);
+}
+
+// Replaces each split parent with its lines, in order. SplitIds (SPLIT-1, ...)
+// follow the rows' order, like TransferId. Lines that no longer add up to the
+// parent (its Amount changed with an edit or the fee mode) are not applied:
+// the parent stays, with the reason in `_splitProblem`.
+export function expandSplits<
+  R extends { _id: string; Amount: string; Category: string; Notes: string },
+>(
+  rows: R[],
+  splits: Splits
+): (R & { SplitId: string; _splitProblem: string })[] {
+  let count = 0;
+  return rows.flatMap((row) => {
+    const lines = splits[row._id];
+    if (!lines?.length) return [{ ...row, SplitId: "", _splitProblem: "" }];
+    const problem = splitProblem(row.Amount, lines);
+    if (problem) return [{ ...row, SplitId: "", _splitProblem: problem }];
+    const SplitId = `SPLIT-${++count}`;
+    return lines.map((l, i) => ({
+      ...row,
+      _id: `${row._id}${childMark}${i + 1}`,
+      Amount: (cents(l.amount) / 100).toFixed(2),
+      Category: l.category,
+      Notes: l.notes,
+      SplitId,
+      _splitProblem: "",
+    }));
+  });
+}
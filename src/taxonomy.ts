@@ -0,0 +1,246 @@
+// ---- Category taxonomy ----
+// Ordered list of categories, one level of nesting (e.g. Transport › Fuel).
+// Row values keep the plain category name; `aliases` remembers renamed/merged
+// names so stale values from heuristics, LLM results or old sessions resolve.
+
+export type CategoryNode = {
+  name: string;
+  color: string; // key of categoryColors
+  parent: string | null;
+};
+
+export type Taxonomy = {
+  categories: CategoryNode[];
+  aliases: Record<string, string>;
+};
+
+// Full class strings so Tailwind picks them up when scanning the sources.
+export const categoryColors: Record<string, string> = {
+  gray: "bg-gray-100 text-gray-800",
+  slate: "bg-slate-100 text-slate-800",
+  red: "bg-red-100 text-red-800",
+  orange: "bg-orange-100 text-orange-800",
+  amber: "bg-amber-100 text-amber-800",
+  yellow: "bg-yellow-100 text-yellow-800",
+  lime: "bg-lime-100 text-lime-800",
+  green: "bg-green-100 text-green-800",
+  emerald: "bg-emerald-100 text-emerald-800",
+  teal: "bg-teal-100 text-teal-800",
+  cyan: "bg-cyan-100 text-cyan-800",
+  sky: "bg-sky-100 text-sky-800",
+  indigo: "bg-indigo-100 text-indigo-800",
+  violet: "bg-violet-100 text-violet-800",
+  fuchsia: "bg-fuchsia-100 text-fuchsia-800",
+  pink: "bg-pink-100 text-pink-800",
+  rose: "bg-rose-100 text-rose-800",
+};
+
+// Solid fills for the dashboard charts, same keys as categoryColors.
+export const categoryChartColors: Record<string, string> = {
+  gray: "bg-gray-400",
+  slate: "bg-slate-500",
+  red: "bg-red-400",
+  orange: "bg-orange-400",
+  amber: "bg-amber-400",
+  yellow: "bg-yellow-400",
+  lime: "bg-lime-500",
+  green: "bg-green-500",
+  emerald: "bg-emerald-500",
+  teal: "bg-teal-500",
+  cyan: "bg-cyan-500",
+  sky: "bg-sky-500",
+  indigo: "bg-indigo-500",
+  violet: "bg-violet-500",
+  fuchsia: "bg-fuchsia-500",
+  pink: "bg-pink-400",
+  rose: "bg-rose-400",
+};
+
+const node = (name: string, color = "gray", parent: string | null = null) => ({
+  name,
+  color,
+  parent,
+});
+
+export const defaultTaxonomy: Taxonomy = {
+  categories: [
+    node("Housing", "yellow"),
+    node("Rent", "yellow"),
+    node("Bills", "orange"),
+    node("Health", "rose"),
+    node("Fitness", "teal"),
+    node("Groceries", "emerald"),
+    node("Transport", "sky"),
+    node("Fuel", "amber", "Transport"),
+    node("Car/Bike", "sky"),
+    node("Subscriptions", "indigo"),
+    node("Education", "teal"),
+    node("Out", "pink"),
+    node("Travel", "cyan"),
+    node("Shopping", "violet"),
+    node("Leisure", "fuchsia"),
+    node("Gifts & Donations", "lime"),
+    node("Electronics", "violet"),
+    node("OtherExpenses", "gray"),
+    node("Transfers", "slate"),
+    node("Income", "green"),
+    node("Fees", "red"),
+  ],
+  aliases: {},
+};
+
+const storageKey = "rcvt_taxonomy";
+
+export function loadTaxonomy(): Taxonomy {
+  try {
+    const s = localStorage.getItem(storageKey);
+    if (!s) return defaultTaxonomy;
+    const t = JSON.parse(s);
+    if (!Array.isArray(t?.categories) || !t.categories.length)
+      return defaultTaxonomy;
+    return { categories: t.categories, aliases: t.aliases || {} };
+  } catch {
+    return defaultTaxonomy;
+  }
+}
+
+export function saveTaxonomy(t: Taxonomy) {
+  localStorage.setItem(storageKey, JSON.stringify(t));
+}
+
+export function findCategory(t: Taxonomy, name: string) {
+  return t.categories.find((c) => c.name === name) || null;
+}
+
+// Display order: each top-level category followed by its subcategories.
+export function orderedCategories(t: Taxonomy): CategoryNode[] {
+  const out: CategoryNode[] = [];
+  for (const c of t.categories) {
+    if (c.parent) continue;
+    out.push(c, ...t.categories.filter((x) => x.parent === c.name));
+  }
+  return out;
+}
+
+export function categoryNames(t: Taxonomy): string[] {
+  return orderedCategories(t).map((c) => c.name);
+}
+
+// Maps a renamed/merged/deleted name onto its current category; unknown names pass through.
+export function resolveCategory(t: Taxonomy, name: string): string {
+  if (!name || findCategory(t, name)) return name;
+  return t.aliases[name] ?? name;
+}
+
+export function categoryPath(t: Taxonomy, name: string, sep = " › "): string {
+  const c = findCategory(t, name);
+  return c?.parent ? `${c.parent}${sep}${c.name}` : name;
+}
+
+export function categoryBadgeClass(t: Taxonomy, name: string): string {
+  const c = findCategory(t, name);
+  return (c && categoryColors[c.color]) || "bg-gray-100 text-gray-700";
+}
+
+export function categoryChartClass(t: Taxonomy, name: string): string {
+  const c = findCategory(t, name);
+  return (c && categoryChartColors[c.color]) || "bg-gray-300";
+}
+
+export function addCategory(
+  t: Taxonomy,
+  name: string,
+  parent: string | null
+): Taxonomy {
+  // a new category shadows an alias with the same name
+  const aliases = { ...t.aliases };
+  delete aliases[name];
+  return {
+    categories: [...t.categories, node(name, "gray", parent)],
+    aliases,
+  };
+}
+
+export function renameCategory(
+  t: Taxonomy,
+  from: string,
+  to: string
+): Taxonomy {
+  const aliases: Record<string, string> = { [from]: to };
+  for (const [k, v] of Object.entries(t.aliases))
+    if (k !== to) aliases[k] = v === from ? to : v;
+  return {
+    categories: t.categories.map((c) => ({
+      ...c,
+      name: c.name === from ? to : c.name,
+      parent: c.parent === from ? to : c.parent,
+    })),
+    aliases,
+  };
+}
+
+// Removes `from`; its rows, rules and subcategories move to `into`.
+export function mergeCategory(
+  t: Taxonomy,
+  from: string,
+  into: string
+): Taxonomy {
+  // subcategories follow `into` (or become its children if it is top-level)
+  const target = findCategory(t, into);
+  const newParent =
+    target?.parent && target.parent !== from ? target.parent : into;
+  const aliases: Record<string, string> = { [from]: into };
+  for (const [k, v] of Object.entries(t.aliases))
+    aliases[k] = v === from ? into : v;
+  return {
+    categories: t.categories
+      .filter((c) => c.name !== from)
+      .map((c) =>
+        c.parent === from
+          ? { ...c, parent: c.name === newParent ? null : newParent }
+          : c
+      ),
+    aliases,
+  };
+}
+
+// Where rows of a deleted category go: its parent, else OtherExpenses, else the first category.
+export function deleteTarget(t: Taxonomy, name: string): string | null {
+  const c = findCategory(t, name);
+  if (c?.parent) return c.parent;
+  const others = t.categories.filter((x) => x.name !== name && !x.parent);
+  if (!others.length) return null;
+  return others.find((x) => x.name === "OtherExpenses")?.name ?? others[0].name;
+}
+
+// Swaps a category with its previous/next sibling.
+export function moveCategory(
+  t: Taxonomy,
+  name: string,
+  delta: -1 | 1
+): Taxonomy {
+  const c = findCategory(t, name);
+  if (!c) return t;
+  const siblings = t.categories.filter((x) => x.parent === c.parent);
+  const i = siblings.indexOf(c);
+  const other = siblings[i + delta];
+  if (!other) return t;
+  const categories = [...t.categories];
+  const a = categories.indexOf(c);
+  const b = categories.indexOf(other);
+  [categories[a], categories[b]] = [categories[b], categories[a]];
+  return { ...t, categories };
+}
+
+export function updateCategory(
+  t: Taxonomy,
+  name: string,
+  patch: Partial<Omit<CategoryNode, "name">>
+): Taxonomy {
+  return {
+    ...t,
+    categories: t.categories.map((c) =>
+      c.name === name ? { ...c, ...patch } : c
+    ),
+  };
+}
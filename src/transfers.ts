@@ -0,0 +1,69 @@
+import type { NormalizedRow } from "./adapters";
+
+// ---- Linked transfers ----
+// Revolut writes a currency exchange or a move between pockets as two rows:
+// money out of one balance and into another, started at the same moment.
+// Paired legs are neither expense nor income.
+
+export type TransferMode = "linked" | "collapsed" | "excluded";
+
+export const transferModes: { id: TransferMode; label: string }[] = [
+  { id: "linked", label: "Linked" },
+  { id: "collapsed", label: "Collapsed" },
+  { id: "excluded", label: "Excluded" },
+];
+
+export const transferKinds = ["EXCHANGE", "TRANSFER"];
+
+export type TransferLeg = Pick<
+  NormalizedRow,
+  "Kind" | "Timestamp" | "Date" | "Amount" | "Currency"
+> & { id: string };
+
+export type TransferLink = {
+  pair: string; // shared by both legs, e.g. "TR-3"
+  other: string; // row id of the opposite leg
+  direction: "out" | "in";
+};
+
+// Legs start in the same minute and carry the same amount; an EXCHANGE may
+// also switch currency.
+function legsMatch(out: TransferLeg, into: TransferLeg): boolean {
+  if (out.Currency !== into.Currency) return out.Kind === "EXCHANGE";
+  return Math.abs(out.Amount + into.Amount) < 0.005;
+}
+
+// Only rows with a start time are paired: on the date alone, unrelated
+// payments of the same amount on the same day would match.
+export function pairTransfers(rows: TransferLeg[]): Map<string, TransferLink> {
+  const when = (r: TransferLeg) => r.Timestamp.slice(0, 16);
+  const candidates = rows
+    .filter(
+      (r) => transferKinds.includes(r.Kind) && r.Amount !== 0 && !!when(r)
+    )
+    .sort((a, b) => when(a).localeCompare(when(b)) || a.id.localeCompare(b.id));
+
+  const incoming = new Map<string, TransferLeg[]>();
+  for (const r of candidates) {
+    if (r.Amount < 0) continue;
+    const k = `${r.Kind}|${when(r)}`;
+    if (!incoming.has(k)) incoming.set(k, []);
+    incoming.get(k)?.push(r);
+  }
+
+  const links = new Map<string, TransferLink>();
+  for (const out of candidates) {
+    if (out.Amount > 0) continue;
+    const open = incoming.get(`${out.Kind}|${when(out)}`) || [];
+    // same-currency legs with the exact amount first, then an exchange
+    const into =
+      open.find((r) => r.Currency === out.Currency && legsMatch(out, r)) ||
+      open.find((r) => legsMatch(out, r));
+    if (!into) continue;
+    open.splice(open.indexOf(into), 1);
+    const pair = `TR-${links.size / 2 + 1}`;
+    links.set(out.id, { pair, other: into.id, direction: "out" });
+    links.set(into.id, { pair, other: out.id, direction: "in" });
+  }
+  return links;
+}
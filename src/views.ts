@@ -0,0 +1,124 @@
+// ---- Table views: search, filters and sort order ----
+// A view only changes what the table shows; Download exports it when the
+// export scope is "view". Named views are kept in localStorage.
+
+export type SortDir = "asc" | "desc";
+
+export type TableView = {
+  search: string; // words matched against Name and Notes
+  dateFrom: string; // YYYY-MM-DD, inclusive
+  dateTo: string;
+  amountMin: string; // absolute amounts, "" = open
+  amountMax: string;
+  categories: string[]; // empty = all; a parent includes its subcategories
+  currency: string;
+  editedOnly: boolean;
+  sortBy: string; // table column
+  sortDir: SortDir;
+};
+
+export type SavedView = TableView & { name: string };
+
+export const defaultView: TableView = {
+  search: "",
+  dateFrom: "",
+  dateTo: "",
+  amountMin: "",
+  amountMax: "",
+  categories: [],
+  currency: "",
+  editedOnly: false,
+  sortBy: "Date",
+  sortDir: "asc",
+};
+
+const storageKey = "rcvt_views";
+
+export function loadSavedViews(): SavedView[] {
+  try {
+    const list = JSON.parse(localStorage.getItem(storageKey) || "[]");
+    if (!Array.isArray(list)) return [];
+    return list.filter((v) => v?.name).map((v) => ({ ...defaultView, ...v }));
+  } catch {
+    return [];
+  }
+}
+
+export function saveSavedViews(views: SavedView[]) {
+  localStorage.setItem(storageKey, JSON.stringify(views));
+}
+
+// Number of active filters (the sort order does not count).
+export function activeFilters(v: TableView): number {
+  return [
+    v.search.trim(),
+    v.dateFrom,
+    v.dateTo,
+    v.amountMin,
+    v.amountMax,
+    v.categories.length,
+    v.currency,
+    v.editedOnly,
+  ].filter(Boolean).length;
+}
+
+export type ViewRow = {
+  Date: string;
+  Amount: string;
+  Currency: string;
+  Category: string;
+  Name: string;
+  Notes: string;
+};
+
+// `categories` is the selection with subcategories already added;
+// `edited` says whether the row has user edits.
+export function matchesView(
+  row: ViewRow,
+  v: TableView,
+  categories: Set<string>,
+  edited: boolean
+): boolean {
+  const text = `${row.Name} ${row.Notes}`.toLowerCase();
+  const words = v.search.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.some((w) => !text.includes(w))) return false;
+  const date = row.Date.slice(0, 10);
+  if (v.dateFrom && date < v.dateFrom) return false;
+  if (v.dateTo && date > v.dateTo) return false;
+  const amount = Math.abs(parseFloat(row.Amount) || 0);
+  const min = parseFloat(v.amountMin.replace(",", "."));
+  const max = parseFloat(v.amountMax.replace(",", "."));
+  if (!isNaN(min) && amount < min) return false;
+  if (!isNaN(max) && amount > max) return false;
+  if (categories.size && !categories.has(row.Category)) return false;
+  if (v.currency && row.Currency !== v.currency) return false;
+  return !v.editedOnly || edited;
+}
+
+const numericColumns = new Set([
+  "Amount",
+  "AmountBase",
+  "FxRate",
+  "Fee",
+  "Balance",
+]);
+
+// Sorts by one column; empty values go last either way and ties keep the
+// row id order, so equal rows do not jump around.
+export function sortRows<T extends Record<string, unknown> & { _id: string }>(
+  rows: T[],
+  column: string,
+  dir: SortDir
+): T[] {
+  const numeric = numericColumns.has(column);
+  const sign = dir === "asc" ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const x = String(a[column] ?? "");
+    const y = String(b[column] ?? "");
+    if (!x || !y) return x === y ? a._id.localeCompare(b._id) : x ? -1 : 1;
+    const c = numeric
+      ? (parseFloat(x) || 0) - (parseFloat(y) || 0)
+      : x.localeCompare(y, undefined, { numeric: true, sensitivity: "base" });
+    return c ? c * sign : a._id.localeCompare(b._id);
+  });
+}